@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff } from './diff.js';
+import { ReplaceEdit } from './types.js';
+
+/**
+ * Build the edits replacing the first occurrence of each search string, in order
+ */
+const replacing = (original: string, ...changes: Array<[string, string]>): ReplaceEdit[] =>
+  changes.map(([search, replacement]) => ({ offset: original.indexOf(search), length: search.length, replacement }));
+
+describe('createUnifiedDiff', () => {
+  it('should return empty string when nothing changes', () => {
+    expect(createUnifiedDiff('a.txt', 'same\n', [])).toBe('');
+    expect(createUnifiedDiff('a.txt', 'same\n', replacing('same\n', ['same', 'same']))).toBe('');
+  });
+
+  it('should produce headers and a single hunk', () => {
+    const original = 'one\ntwo\nthree\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['two', 'TWO']));
+    expect(diff).toBe(
+      '--- a/a.txt\n' +
+      '+++ b/a.txt\n' +
+      '@@ -1,3 +1,3 @@\n' +
+      ' one\n' +
+      '-two\n' +
+      '+TWO\n' +
+      ' three\n'
+    );
+  });
+
+  it('should limit context and compute hunk start lines', () => {
+    const original = Array.from({ length: 10 }, (_, i) => `line${i + 1}`).join('\n') + '\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['line8', 'changed']), 1);
+    expect(diff).toContain('@@ -7,3 +7,3 @@\n line7\n-line8\n+changed\n line9\n');
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line${i + 1}`).join('\n') + '\n';
+    const edits = replacing(original, ['line2\n', 'two\n'], ['line18', 'eighteen']);
+    const diff = createUnifiedDiff('a.txt', original, edits, 2);
+    expect(diff.match(/^@@/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -1,4 +1,4 @@');
+    expect(diff).toContain('@@ -16,5 +16,5 @@');
+  });
+
+  it('should merge changes whose context overlaps', () => {
+    const original = 'a\nb\nc\nd\ne\nf\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['a', 'A'], ['e', 'E']), 2);
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -1,6 +1,6 @@');
+  });
+
+  it('should combine edits on the same line', () => {
+    const original = 'x = a + b\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['a', 'A'], ['b', 'B']), 0);
+    expect(diff).toContain('@@ -1 +1 @@\n-x = a + b\n+x = A + B\n');
+  });
+
+  it('should handle multi-line replacements with differing line counts', () => {
+    const original = 'start\nold\nend\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['old', 'new1\nnew2\nnew3']), 0);
+    expect(diff).toContain('@@ -2 +2,3 @@\n-old\n+new1\n+new2\n+new3\n');
+  });
+
+  it('should use the preceding line number for empty ranges', () => {
+    const original = 'a\nremove\nb\n';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['remove\n', '']), 0);
+    expect(diff).toContain('@@ -2 +1,0 @@\n-remove\n');
+  });
+
+  it('should mark missing newline at end of file', () => {
+    const original = 'one\ntwo';
+    const diff = createUnifiedDiff('a.txt', original, replacing(original, ['two', 'TWO']));
+    expect(diff).toContain('-two\n\\ No newline at end of file\n+TWO\n\\ No newline at end of file\n');
+  });
+
+  it('should treat added trailing newline as a change', () => {
+    const diff = createUnifiedDiff('a.txt', 'one', [{ offset: 3, length: 0, replacement: '\n' }]);
+    expect(diff).toContain('-one\n\\ No newline at end of file\n+one\n');
+  });
+
+  it('should add lines after a trailing newline', () => {
+    const diff = createUnifiedDiff('a.txt', 'one\n', [{ offset: 4, length: 0, replacement: 'two\n' }], 0);
+    expect(diff).toContain('@@ -1,0 +2 @@\n+two\n');
+  });
+
+  it('should diff a change on every line of a large file', () => {
+    const lineCount = 5000;
+    const original = Array.from({ length: lineCount }, (_, i) => `const value${i} = ${i};`).join('\n') + '\n';
+    const edits: ReplaceEdit[] = [];
+    for (let offset = original.indexOf('value'); offset !== -1; offset = original.indexOf('value', offset + 1)) {
+      edits.push({ offset, length: 'value'.length, replacement: 'renamed' });
+    }
+
+    const diff = createUnifiedDiff('a.txt', original, edits);
+
+    expect(diff.match(/^@@/gm)).toEqual([`@@`]);
+    expect(diff).toContain(`@@ -1,${lineCount} +1,${lineCount} @@\n`);
+    expect(diff.match(/^-const value/gm)).toHaveLength(lineCount);
+    expect(diff.match(/^\+const renamed/gm)).toHaveLength(lineCount);
+  });
+});
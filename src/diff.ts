@@ -0,0 +1,224 @@
+import path from 'path';
+import { buildLineIndex, lineAndColumnAt } from './utils.js';
+import { ReplaceEdit } from './types.js';
+
+/**
+ * Default number of context lines around each hunk
+ */
+export const DEFAULT_DIFF_CONTEXT = 3;
+
+/**
+ * A single line-level edit operation
+ */
+interface DiffOp {
+  type: 'equal' | 'delete' | 'insert';
+  text: string;
+  noNewline: boolean;
+}
+
+/**
+ * A line of file content, flagged when it is the last line and lacks a trailing newline
+ */
+interface DiffLine {
+  text: string;
+  noNewline: boolean;
+}
+
+/**
+ * Split content into lines, remembering whether the final line has a newline
+ */
+function splitLines(content: string): DiffLine[] {
+  if (content === '') {
+    return [];
+  }
+
+  const texts = content.split('\n');
+  const endsWithNewline = texts[texts.length - 1] === '';
+  if (endsWithNewline) {
+    texts.pop();
+  }
+
+  return texts.map((text, i) => ({
+    text,
+    noNewline: !endsWithNewline && i === texts.length - 1,
+  }));
+}
+
+/**
+ * Compare the old and new lines of a changed region. Lines the region shares at its start
+ * and end are kept as context; the rest is a deletion followed by an insertion.
+ */
+function regionOps(oldLines: DiffLine[], newLines: DiffLine[]): DiffOp[] {
+  // Lines only compare equal if their trailing-newline state matches too
+  const key = (line: DiffLine) => (line.noNewline ? line.text + '\0' : line.text);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && key(oldLines[prefix]) === key(newLines[prefix])) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    key(oldLines[oldLines.length - 1 - suffix]) === key(newLines[newLines.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const op = (type: DiffOp['type']) => ({ text, noNewline }: DiffLine): DiffOp => ({ type, text, noNewline });
+  return [
+    ...oldLines.slice(0, prefix).map(op('equal')),
+    ...oldLines.slice(prefix, oldLines.length - suffix).map(op('delete')),
+    ...newLines.slice(prefix, newLines.length - suffix).map(op('insert')),
+    ...oldLines.slice(oldLines.length - suffix).map(op('equal')),
+  ];
+}
+
+/**
+ * Compute line-level edit operations from the edits of a replacement. Only the lines an edit
+ * touches are compared, so time and memory stay linear in the file size however many lines change.
+ * @param original - Original content
+ * @param edits - Non-overlapping edits in offset order
+ */
+function editOps(original: string, edits: ReplaceEdit[]): DiffOp[] {
+  const lineStarts = buildLineIndex(original);
+  const lineOf = (offset: number) => lineAndColumnAt(lineStarts, offset).line - 1;
+  // Offset just past the newline ending a line, or the end of the content
+  const lineEnd = (line: number) => (line + 1 < lineStarts.length ? lineStarts[line + 1] : original.length);
+
+  const ops: DiffOp[] = [];
+  let line = 0; // Next original line not yet emitted
+  const lines = splitLines(original);
+  const keep = (until: number) => {
+    for (; line < until && line < lines.length; line++) {
+      ops.push({ type: 'equal', ...lines[line] });
+    }
+  };
+
+  let i = 0;
+  while (i < edits.length) {
+    // A region spans the whole lines touched by one edit, or by several edits sharing a line
+    const first = lineOf(edits[i].offset);
+    let last = lineOf(edits[i].offset + edits[i].length);
+    let j = i + 1;
+    while (j < edits.length && lineOf(edits[j].offset) <= last) {
+      last = Math.max(last, lineOf(edits[j].offset + edits[j].length));
+      j++;
+    }
+
+    const start = lineStarts[first];
+    const end = lineEnd(last);
+    let modified = '';
+    let position = start;
+    for (const { offset, length, replacement } of edits.slice(i, j)) {
+      modified += original.substring(position, offset) + replacement;
+      position = offset + length;
+    }
+    modified += original.substring(position, end);
+
+    keep(first);
+    ops.push(...regionOps(splitLines(original.substring(start, end)), splitLines(modified)));
+    line = last + 1;
+    i = j;
+  }
+  keep(lines.length);
+
+  return ops;
+}
+
+/**
+ * Format a hunk range for the @@ header (count omitted when it is 1, start shifted back when empty)
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) {
+    return `${start - 1},0`;
+  }
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Get the path label used in diff headers: relative to the working directory with
+ * forward slashes, or the absolute path without its root for files outside of it
+ * @param filePath - File path
+ * @returns Label suitable for a/ and b/ prefixes
+ */
+export function diffLabel(filePath: string): string {
+  const relative = path.relative(process.cwd(), filePath);
+  const label = relative.startsWith('..') || path.isAbsolute(relative) ? path.resolve(filePath) : relative;
+  return label.replace(/\\/g, '/').replace(/^[A-Za-z]:/, '').replace(/^\/+/, '');
+}
+
+/**
+ * Create a unified diff of the edits of a replacement
+ * @param label - Path label for the ---/+++ headers (without a/ or b/ prefix)
+ * @param original - Original content
+ * @param edits - Non-overlapping edits in offset order, as applied to the original
+ * @param contextLines - Unchanged lines to show around each change (default: 3)
+ * @returns Unified diff text, or an empty string if the edits change nothing
+ */
+export function createUnifiedDiff(
+  label: string,
+  original: string,
+  edits: ReplaceEdit[],
+  contextLines: number = DEFAULT_DIFF_CONTEXT
+): string {
+  const ops = editOps(original, edits);
+  const context = Math.max(0, contextLines);
+
+  // Indices of changed operations
+  const changes: number[] = [];
+  ops.forEach((op, i) => {
+    if (op.type !== 'equal') {
+      changes.push(i);
+    }
+  });
+
+  if (changes.length === 0) {
+    return '';
+  }
+
+  // Line numbers (1-based) of each op in the old and new file
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== 'insert') oldLine++;
+    if (op.type !== 'delete') newLine++;
+  }
+
+  let output = `--- a/${label}\n+++ b/${label}\n`;
+
+  let c = 0;
+  while (c < changes.length) {
+    const start = Math.max(0, changes[c] - context);
+    let last = changes[c];
+
+    // Merge changes whose context windows touch
+    while (c + 1 < changes.length && changes[c + 1] - last <= 2 * context + 1) {
+      c++;
+      last = changes[c];
+    }
+    c++;
+
+    const end = Math.min(ops.length, last + context + 1);
+    const hunk = ops.slice(start, end);
+
+    const oldCount = hunk.filter(op => op.type !== 'insert').length;
+    const newCount = hunk.filter(op => op.type !== 'delete').length;
+    output += `@@ -${formatRange(oldLineAt[start], oldCount)} +${formatRange(newLineAt[start], newCount)} @@\n`;
+
+    for (const op of hunk) {
+      const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+      output += `${prefix}${op.text}\n`;
+      if (op.noNewline) {
+        output += '\\ No newline at end of file\n';
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { parseIgnoreFile, matchIgnoreRules, filterIgnoredFiles } from './ignore.js';
+
+describe('parseIgnoreFile', () => {
+  it('should skip comments and blank lines', () => {
+    const rules = parseIgnoreFile('# comment\n\n*.log\n');
+    expect(rules).toHaveLength(1);
+  });
+
+  it('should parse negation and directory rules', () => {
+    const [dirRule, negated] = parseIgnoreFile('build/\n!keep.log');
+    expect(dirRule.dirOnly).toBe(true);
+    expect(dirRule.negate).toBe(false);
+    expect(negated.negate).toBe(true);
+  });
+
+  it('should treat escaped # and ! as literals', () => {
+    const rules = parseIgnoreFile('\\#notes\n\\!important');
+    expect(rules).toHaveLength(2);
+    expect(rules[0].regex.test('#notes')).toBe(true);
+    expect(rules[1].negate).toBe(false);
+    expect(rules[1].regex.test('!important')).toBe(true);
+  });
+
+  it('should match unanchored patterns at any depth', () => {
+    const [rule] = parseIgnoreFile('*.log');
+    expect(rule.regex.test('debug.log')).toBe(true);
+    expect(rule.regex.test('a/b/debug.log')).toBe(true);
+    expect(rule.regex.test('debug.txt')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash', () => {
+    const [rule] = parseIgnoreFile('/dist');
+    expect(rule.regex.test('dist')).toBe(true);
+    expect(rule.regex.test('src/dist')).toBe(false);
+  });
+
+  it('should support ** wildcards', () => {
+    const [leading, inner, trailing] = parseIgnoreFile('**/tmp\na/**/b\nlogs/**');
+    expect(leading.regex.test('x/y/tmp')).toBe(true);
+    expect(inner.regex.test('a/b')).toBe(true);
+    expect(inner.regex.test('a/x/y/b')).toBe(true);
+    expect(trailing.regex.test('logs/today.txt')).toBe(true);
+    expect(trailing.regex.test('logs')).toBe(false);
+  });
+
+  it('should support ? and character classes', () => {
+    const [rule] = parseIgnoreFile('file[0-9]?.txt');
+    expect(rule.regex.test('file1a.txt')).toBe(true);
+    expect(rule.regex.test('filex1.txt')).toBe(false);
+  });
+});
+
+describe('matchIgnoreRules', () => {
+  const base = path.resolve('/repo');
+
+  it('should let later rules override earlier ones', () => {
+    const ruleSets = [{ base, rules: parseIgnoreFile('*.log\n!keep.log') }];
+    expect(matchIgnoreRules(path.join(base, 'debug.log'), false, ruleSets)).toBe(true);
+    expect(matchIgnoreRules(path.join(base, 'keep.log'), false, ruleSets)).toBe(false);
+  });
+
+  it('should apply directory-only rules to directories only', () => {
+    const ruleSets = [{ base, rules: parseIgnoreFile('build/') }];
+    expect(matchIgnoreRules(path.join(base, 'build'), true, ruleSets)).toBe(true);
+    expect(matchIgnoreRules(path.join(base, 'build'), false, ruleSets)).toBe(false);
+  });
+
+  it('should ignore rule sets from unrelated directories', () => {
+    const ruleSets = [{ base: path.join(base, 'other'), rules: parseIgnoreFile('*.log') }];
+    expect(matchIgnoreRules(path.join(base, 'debug.log'), false, ruleSets)).toBe(false);
+  });
+});
+
+describe('filterIgnoredFiles', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-test-'));
+    await fs.mkdir(path.join(tmpDir, '.git', 'info'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const touch = async (relative: string) => {
+    const filePath = path.join(tmpDir, relative);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, '');
+    return filePath;
+  };
+
+  it('should apply nested ignore files relative to their directory', async () => {
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), 'node_modules/\n');
+    const kept = await touch('src/app.ts');
+    const generated = await touch('src/gen/out.ts');
+    const vendored = await touch('node_modules/pkg/index.ts');
+    await fs.writeFile(path.join(tmpDir, 'src', '.gitignore'), 'gen/\n');
+
+    const result = await filterIgnoredFiles([kept, generated, vendored]);
+    expect(result).toEqual([kept]);
+  });
+
+  it('should not re-include files below an ignored directory', async () => {
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), 'build/\n!build/keep.txt\n');
+    const file = await touch('build/keep.txt');
+
+    expect(await filterIgnoredFiles([file])).toEqual([]);
+  });
+
+  it('should honor .ignore over .gitignore and .git/info/exclude', async () => {
+    await fs.writeFile(path.join(tmpDir, '.git', 'info', 'exclude'), '*.tmp\n');
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), '*.log\n');
+    await fs.writeFile(path.join(tmpDir, '.ignore'), '!important.log\n');
+    const tmpFile = await touch('scratch.tmp');
+    const logFile = await touch('debug.log');
+    const important = await touch('important.log');
+
+    expect(await filterIgnoredFiles([tmpFile, logFile, important])).toEqual([important]);
+  });
+
+  it('should only honor .ignore outside of a git repository', async () => {
+    await fs.rm(path.join(tmpDir, '.git'), { recursive: true });
+    await fs.writeFile(path.join(tmpDir, '.gitignore'), '*.log\n');
+    await fs.writeFile(path.join(tmpDir, '.ignore'), '*.tmp\n');
+    const logFile = await touch('debug.log');
+    const tmpFile = await touch('scratch.tmp');
+
+    expect(await filterIgnoredFiles([logFile, tmpFile])).toEqual([logFile]);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const file = await touch('src/app.ts');
+
+    await expect(filterIgnoredFiles([file], AbortSignal.abort(new Error('aborted')))).rejects.toThrow('aborted');
+  });
+});
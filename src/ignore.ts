@@ -0,0 +1,323 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+
+/**
+ * Names of per-directory ignore files, in increasing order of precedence
+ */
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ignore'];
+
+/**
+ * A single compiled rule from an ignore file
+ */
+export interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Rules loaded from one ignore file, relative to the directory they apply to
+ */
+export interface IgnoreRuleSet {
+  base: string;
+  rules: IgnoreRule[];
+}
+
+/**
+ * Escape a single character for use in a RegExp
+ */
+function escapeChar(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? '\\' + char : char;
+}
+
+/**
+ * Convert a gitignore glob (without leading/trailing slashes) to a regex source.
+ * Supports *, ?, [...] classes, ** path wildcards and backslash escapes.
+ * @param glob - Glob from an ignore file line
+ * @returns Regex source matching a slash-separated relative path
+ */
+export function ignoreGlobToRegex(glob: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing "**" matches everything below
+            source += '.*';
+            i += 2;
+          } else {
+            // Leading or inner "**/" matches zero or more directories
+            source += '(?:.*/)?';
+            i += 3;
+          }
+          continue;
+        }
+
+        // "**" inside a segment behaves like a single "*"
+        source += '[^/]*';
+        i += 2;
+        continue;
+      }
+
+      source += '[^/]*';
+      i++;
+      continue;
+    }
+
+    if (char === '?') {
+      source += '[^/]';
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end !== -1) {
+        let charClass = glob.slice(i + 1, end);
+        if (charClass.startsWith('!')) {
+          charClass = '^' + charClass.slice(1);
+        }
+        source += '[' + charClass + ']';
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeChar(glob[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    source += escapeChar(char);
+    i++;
+  }
+
+  return source;
+}
+
+/**
+ * Parse the contents of a .gitignore-style file
+ * @param content - File content
+ * @returns Compiled rules in file order
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    // Trailing whitespace is ignored unless escaped with a backslash
+    let line = rawLine.replace(/\r$/, '').replace(/(?<!\\)\s+$/, '');
+
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    let negate = false;
+    if (line.startsWith('!')) {
+      negate = true;
+      line = line.slice(1);
+    }
+
+    let dirOnly = false;
+    if (line.endsWith('/')) {
+      dirOnly = true;
+      line = line.replace(/\/+$/, '');
+    }
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\/+/, '');
+
+    if (line === '') {
+      continue;
+    }
+
+    const source = ignoreGlobToRegex(line);
+    try {
+      rules.push({
+        regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+        negate,
+        dirOnly,
+      });
+    } catch {
+      // Malformed character class; git ignores such lines as well
+      continue;
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Evaluate ignore rules against a path. Later rules take precedence over earlier ones.
+ * @param targetPath - Absolute path to check
+ * @param isDir - Whether the path is a directory
+ * @param ruleSets - Rule sets in increasing order of precedence
+ * @returns True if the last matching rule ignores the path
+ */
+export function matchIgnoreRules(targetPath: string, isDir: boolean, ruleSets: IgnoreRuleSet[]): boolean {
+  let ignored = false;
+
+  for (const { base, rules } of ruleSets) {
+    const relative = path.relative(base, targetPath).split(path.sep).join('/');
+    if (relative === '' || relative.startsWith('../') || path.isAbsolute(relative)) {
+      continue;
+    }
+
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDir) {
+        continue;
+      }
+      if (rule.regex.test(relative)) {
+        ignored = !rule.negate;
+      }
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Read and parse an ignore file, returning an empty rule set if it does not exist
+ */
+async function loadRuleSet(filePath: string, base: string): Promise<IgnoreRuleSet> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return { base, rules: parseIgnoreFile(content) };
+  } catch {
+    return { base, rules: [] };
+  }
+}
+
+/**
+ * Check whether a path exists
+ */
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.stat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a matcher that decides whether files are excluded by .gitignore, .ignore
+ * and .git/info/exclude files, the way ripgrep does. Ignore files are read lazily
+ * and cached per directory, so one matcher should be reused for a whole file list.
+ * Inside a git repository, rules apply from the repository root down; outside of one,
+ * only .ignore files are honored. Files under an ignored directory cannot be re-included.
+ * @returns Function resolving to true if the file (or, with isDir, the directory) should be skipped
+ */
+export function createIgnoreMatcher(): (filePath: string, isDir?: boolean) => Promise<boolean> {
+  const repoRoots = new Map<string, Promise<string | null>>();
+  const applicableRules = new Map<string, Promise<IgnoreRuleSet[]>>();
+  const ignoredDirs = new Map<string, Promise<boolean>>();
+
+  // Nearest ancestor directory containing .git, or null outside of a repository
+  const findRepoRoot = (dir: string): Promise<string | null> => {
+    let cached = repoRoots.get(dir);
+    if (!cached) {
+      cached = (async () => {
+        if (await pathExists(path.join(dir, '.git'))) {
+          return dir;
+        }
+        const parent = path.dirname(dir);
+        return parent === dir ? null : findRepoRoot(parent);
+      })();
+      repoRoots.set(dir, cached);
+    }
+    return cached;
+  };
+
+  // Top of the ignore chain: the repository root, or the filesystem root outside of a repository
+  const chainRoot = async (dir: string): Promise<string> => {
+    return (await findRepoRoot(dir)) ?? path.parse(dir).root;
+  };
+
+  // Rule sets that apply to entries directly inside dir, lowest precedence first
+  const rulesFor = (dir: string): Promise<IgnoreRuleSet[]> => {
+    let cached = applicableRules.get(dir);
+    if (!cached) {
+      cached = (async () => {
+        const repoRoot = await findRepoRoot(dir);
+        const root = repoRoot ?? path.parse(dir).root;
+        const names = repoRoot ? IGNORE_FILE_NAMES : IGNORE_FILE_NAMES.filter(name => name !== '.gitignore');
+
+        const inherited =
+          dir === root
+            ? repoRoot
+              ? [await loadRuleSet(path.join(repoRoot, '.git', 'info', 'exclude'), repoRoot)]
+              : []
+            : await rulesFor(path.dirname(dir));
+
+        const own = await Promise.all(names.map(name => loadRuleSet(path.join(dir, name), dir)));
+        return [...inherited, ...own];
+      })();
+      applicableRules.set(dir, cached);
+    }
+    return cached;
+  };
+
+  const isDirIgnored = (dir: string): Promise<boolean> => {
+    let cached = ignoredDirs.get(dir);
+    if (!cached) {
+      cached = (async () => {
+        if (dir === (await chainRoot(dir))) {
+          return false;
+        }
+        const parent = path.dirname(dir);
+        if (await isDirIgnored(parent)) {
+          return true;
+        }
+        return matchIgnoreRules(dir, true, await rulesFor(parent));
+      })();
+      ignoredDirs.set(dir, cached);
+    }
+    return cached;
+  };
+
+  return async (filePath: string, isDir = false): Promise<boolean> => {
+    if (isDir) {
+      return isDirIgnored(filePath);
+    }
+    const dir = path.dirname(filePath);
+    if (await isDirIgnored(dir)) {
+      return true;
+    }
+    return matchIgnoreRules(filePath, false, await rulesFor(dir));
+  };
+}
+
+/**
+ * Remove files excluded by ignore files from a list of absolute paths
+ * @param files - Absolute file paths
+ * @param signal - Abort signal, checked between files
+ * @param isIgnored - Matcher to use, e.g. one whose directories were already checked while globbing
+ * @returns Files that are not ignored, in original order
+ * @throws The abort reason if the signal fires
+ */
+export async function filterIgnoredFiles(
+  files: string[],
+  signal?: AbortSignal,
+  isIgnored = createIgnoreMatcher()
+): Promise<string[]> {
+  const kept: string[] = [];
+
+  for (const file of files) {
+    signal?.throwIfAborted();
+    if (!(await isIgnored(file))) {
+      kept.push(file);
+    }
+  }
+
+  return kept;
+}
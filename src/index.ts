@@ -10,10 +10,15 @@ import {
 
 // Import all regex tools
 import { regexSearch } from './tools/regex-search.js';
-import { regexReplace } from './tools/regex-replace.js';
+import { regexReplace, regexApplyPreview } from './tools/regex-replace.js';
 import { regexExtract } from './tools/regex-extract.js';
 import { regexMatchLines } from './tools/regex-match-lines.js';
 import { regexSplit } from './tools/regex-split.js';
+import { regexBinarySearch } from './tools/regex-binary-search.js';
+import { regexQuery } from './tools/regex-query.js';
+import { regexCount } from './tools/regex-count.js';
+import { regexSections } from './tools/regex-sections.js';
+import { regexUndo } from './tools/regex-undo.js';
 
 /**
  * MCP Server for regex-based file operations
@@ -71,6 +76,16 @@ class RegexMCPServer {
             return await this.handleRegexMatchLines(args);
           case 'regex_split':
             return await this.handleRegexSplit(args);
+          case 'regex_binary_search':
+            return await this.handleRegexBinarySearch(args);
+          case 'regex_query':
+            return await this.handleRegexQuery(args);
+          case 'regex_count':
+            return await this.handleRegexCount(args);
+          case 'regex_sections':
+            return await this.handleRegexSections(args);
+          case 'regex_undo':
+            return await this.handleRegexUndo(args);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -92,7 +107,7 @@ class RegexMCPServer {
     return [
       {
         name: 'regex_search',
-        description: 'Search for pattern matches in files. Supports glob patterns (e.g., "src/**/*.js" for recursive search, "*.txt" for single directory). Returns array of matches with file path, line/column positions, capture groups, and context lines.',
+        description: 'Search for pattern matches in files. Supports glob patterns (e.g., "src/**/*.js" for recursive search, "*.txt" for single directory). Returns matches with file path, line/column positions, capture groups, and context lines, plus files_scanned, files_matched, skipped files with reasons, and truncated/truncated_by when a limit cut results short, with next_cursor to fetch the next page.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -104,16 +119,25 @@ class RegexMCPServer {
             context_after: { type: 'number', description: 'Lines after match (default: 0)' },
             max_matches: { type: 'number', description: 'Maximum matches to return' },
             exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
             binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary (default: 8192, <=0: treat as text)' },
             timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
             max_results: { type: 'number', description: 'Global limit for results across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are streamed instead of loaded whole (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            stream_overlap: { type: 'number', description: 'Characters shared by consecutive windows when streaming; longer matches may be missed (default: 65536)' },
+            near_pattern: { type: 'string', description: 'Proximity search: only return matches with a hit of this pattern within near_lines, paired with the nearest hit and the combined line span' },
+            near_lines: { type: 'number', description: 'Maximum lines between a match and its near hit (default: 5)' },
+            near_direction: { type: 'string', enum: ['before', 'after', 'either'], description: 'Whether the near hit must come before or after the match, or either (default: "either")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
           },
           required: ['path_pattern', 'pattern'],
         },
       },
       {
         name: 'regex_replace',
-        description: 'Replace pattern matches in files. Supports glob patterns (e.g., "src/**/*.js" for recursive replace). Supports capture groups ($1, ${name}) unless literal=true. Returns array of replacements made with file paths.',
+        description: 'Replace pattern matches in files. Supports glob patterns (e.g., "src/**/*.js" for recursive replace). Supports capture groups ($1, ${name}) unless literal=true. Returns replacements made with file paths, or a unified diff per file when output="diff". Applied replacements return an operation_id for regex_undo. A dry run returns a preview_token; pass it back alone to apply exactly the previewed edits, failing per file if the file changed since.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -126,17 +150,27 @@ class RegexMCPServer {
             context_after: { type: 'number', description: 'Lines after match' },
             dry_run: { type: 'boolean', description: 'Preview without writing (default: false)' },
             max_replacements: { type: 'number', description: 'Maximum replacements to make' },
+            output: { type: 'string', enum: ['matches', 'diff'], description: 'Output mode: "matches" (JSON results) or "diff" (unified diff per file, usable with git apply). Default: "matches"' },
+            diff_context: { type: 'number', description: 'Context lines around each diff hunk when output="diff" (default: 3)' },
+            preview_token: { type: 'string', description: 'Apply exactly the edits of an earlier dry run (other matching parameters are then ignored)' },
+            include_ids: { type: 'array', items: { type: 'string' }, description: 'Only apply matches with these result ids (from a dry run or preview)' },
+            exclude_ids: { type: 'array', items: { type: 'string' }, description: 'Apply all matches except those with these result ids' },
+            state_dir: { type: 'string', description: 'Directory for the undo journal and previews (default: $FS_REGEX_MCP_STATE_DIR or ~/.fs-regex-mcp)' },
             exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
             binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
             timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
             max_results: { type: 'number', description: 'Global limit for results across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
           },
-          required: ['path_pattern', 'pattern', 'replacement'],
+          anyOf: [{ required: ['path_pattern', 'pattern', 'replacement'] }, { required: ['preview_token'] }],
         },
       },
       {
         name: 'regex_extract',
-        description: 'Extract only capture groups from pattern matches (excludes full match). Supports glob patterns for multiple files. Useful for parsing structured data.',
+        description: 'Extract only capture groups from pattern matches (excludes full match). Named groups are also returned by name; groups that did not participate are null. Can collapse identical values into counts (unique/group_by) and emit CSV or JSON Lines records. Supports glob patterns for multiple files. Useful for parsing structured data.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -144,17 +178,26 @@ class RegexMCPServer {
             pattern: { type: 'string', description: 'Regex pattern WITH capture groups' },
             flags: { type: 'string', description: 'Optional regex flags' },
             max_matches: { type: 'number', description: 'Maximum matches' },
+            format: { type: 'string', enum: ['json', 'csv', 'jsonl'], description: 'json: results in matches; csv or jsonl: the records of the page as text in output (default: "json")' },
+            unique: { type: 'boolean', description: 'Collapse identical capture tuples into values with an occurrence count and sample locations; max_results then limits the values (default: false)' },
+            group_by: { type: ['number', 'string', 'array'], items: { type: ['number', 'string'] }, description: 'Capture group index or name, or a list of them, to collapse by (implies unique)' },
+            max_locations: { type: 'number', description: 'Sample locations kept per unique value (default: 3)' },
             exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
             binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
             timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
             max_results: { type: 'number', description: 'Global limit for results across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
           },
           required: ['path_pattern', 'pattern'],
         },
       },
       {
         name: 'regex_match_lines',
-        description: 'Filter lines that match (or don\'t match) a pattern. Supports glob patterns for multiple files. Like grep/grep -v.',
+        description: 'Filter lines that match (or don\'t match) a pattern, optionally with context merged into blocks, or across lines with sliding windows or multi-line records. Supports glob patterns for multiple files. Like grep/grep -v/grep -C.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -163,18 +206,27 @@ class RegexMCPServer {
             flags: { type: 'string', description: 'Optional regex flags' },
             literal: { type: 'boolean', description: 'Treat pattern as literal string (default: false)' },
             invert: { type: 'boolean', description: 'Return non-matching lines (default: false)' },
-            max_lines: { type: 'number', description: 'Maximum lines to return' },
+            max_lines: { type: 'number', description: 'Maximum selected lines to return per file; context lines are not counted' },
+            context_before: { type: 'number', description: 'Lines before each selected line; overlapping context merges into blocks separated by "--" (default: 0)' },
+            context_after: { type: 'number', description: 'Lines after each selected line; overlapping context merges into blocks separated by "--" (default: 0)' },
+            window: { type: 'number', description: 'Test the pattern against this many consecutive lines, so matches may span line breaks; each match is reported once, from the line it starts on (default: 1)' },
+            record_start: { type: 'string', description: 'Regex for the first line of a record (e.g., a log timestamp); continuation lines join the record, and the pattern keeps or drops whole records' },
             exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
             binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
             timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
             max_results: { type: 'number', description: 'Global limit for results across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are streamed instead of loaded whole (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
           },
           required: ['path_pattern', 'pattern'],
         },
       },
       {
         name: 'regex_split',
-        description: 'Split file content by regex delimiter pattern. Supports glob patterns for multiple files. Returns array of segments with line ranges and file paths.',
+        description: 'Split file content by regex delimiter pattern. Supports glob patterns for multiple files. Returns segments with line ranges and file paths, and the delimiter with its capture groups (e.g., heading text) as segment metadata, plus scan statistics, skipped files and truncation.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -183,14 +235,132 @@ class RegexMCPServer {
             flags: { type: 'string', description: 'Optional regex flags' },
             literal: { type: 'boolean', description: 'Treat pattern as literal string delimiter (default: false)' },
             max_splits: { type: 'number', description: 'Maximum number of splits' },
+            keep_delimiter: { type: 'string', enum: ['next', 'previous'], description: 'Keep each delimiter at the start of the next segment (e.g., headings) or the end of the previous one; omit to drop delimiters' },
+            drop_empty: { type: 'boolean', description: 'Leave out empty segments (default: false)' },
             exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
             binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
             timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
             max_results: { type: 'number', description: 'Global limit for segments across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
           },
           required: ['path_pattern', 'pattern'],
         },
       },
+      {
+        name: 'regex_binary_search',
+        description: 'Search files as raw bytes, including binary files, for magic numbers, byte signatures or embedded strings. Patterns are hex bytes with ?? wildcards (e.g., "4D 5A ?? 00") or, with mode="regex", regexes over the bytes read as latin1. Returns byte offsets, the matched bytes as hex and text, and a hexdump of the surrounding bytes, plus scan statistics.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path_pattern: { type: 'string', description: 'File path or glob pattern (e.g., "app.exe", "build/**/*.so")' },
+            pattern: { type: 'string', description: 'Hex byte pattern with ?? wildcards (e.g., "4D 5A ?? 00"), or a regex when mode="regex"' },
+            mode: { type: 'string', enum: ['hex', 'regex'], description: 'How to read the pattern: "hex" bytes or a "regex" over latin1 text, one character per byte (default: "hex")' },
+            flags: { type: 'string', description: 'Optional regex flags (regex mode only)' },
+            literal: { type: 'boolean', description: 'Treat the pattern as a literal latin1 string (regex mode only, default: false)' },
+            context_bytes: { type: 'number', description: 'Bytes before and after each match to include in the hexdump (default: 16)' },
+            max_matches: { type: 'number', description: 'Maximum matches per file' },
+            exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
+            timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
+            max_results: { type: 'number', description: 'Global limit for results across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
+          },
+          required: ['path_pattern', 'pattern'],
+        },
+      },
+      {
+        name: 'regex_query',
+        description: 'Find files (or lines) matching a boolean combination of patterns: every term in "all" AND at least one term in "any" AND no term in "none". Returns each matching file (scope="file") or line (scope="line") with the hits of every positive term, plus scan statistics. Example: all=["useEffect", "fetch\\("], none=["AbortController"].',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path_pattern: { type: 'string', description: 'File path or glob pattern (e.g., "file.txt", "src/*.js", "**/*.ts")' },
+            all: { type: 'array', items: { type: 'string' }, description: 'Terms that must all match (regex or /pattern/flags)' },
+            any: { type: 'array', items: { type: 'string' }, description: 'Terms of which at least one must match' },
+            none: { type: 'array', items: { type: 'string' }, description: 'Terms that must not match' },
+            scope: { type: 'string', enum: ['file', 'line'], description: 'Whether the terms must match anywhere in the same file or on the same line (default: "file")' },
+            flags: { type: 'string', description: 'Optional regex flags for every term' },
+            literal: { type: 'boolean', description: 'Treat every term as a literal string (default: false)' },
+            max_hits: { type: 'number', description: 'Hits returned per positive term in each result (default: 10)' },
+            exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
+            binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
+            timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time each regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
+            max_results: { type: 'number', description: 'Global limit for files (or lines) across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
+          },
+          required: ['path_pattern'],
+        },
+      },
+      {
+        name: 'regex_count',
+        description: 'Count pattern matches in files without returning them. Returns the total, per-file counts for files with matches and, with group_by, a histogram of a capture group\'s values (e.g., requests per HTTP status code). Every match is counted: there is no max_results cap.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path_pattern: { type: 'string', description: 'File path or glob pattern (e.g., "file.txt", "src/*.js", "**/*.ts")' },
+            pattern: { type: 'string', description: 'Regex pattern or /pattern/flags format (or literal string if literal=true)' },
+            flags: { type: 'string', description: 'Optional regex flags' },
+            literal: { type: 'boolean', description: 'Treat pattern as literal string (default: false)' },
+            group_by: { type: ['number', 'string'], description: 'Capture group index or name whose values to count in a histogram' },
+            exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
+            binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
+            timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+          },
+          required: ['path_pattern', 'pattern'],
+        },
+      },
+      {
+        name: 'regex_sections',
+        description: 'Split Markdown and similar documents into a tree of sections by heading level. Returns each section\'s title, level, title path, line range and body, or fetches the sections at a title path (e.g., "Usage > Option 2") with their full content, to read or rewrite one section of a large doc.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path_pattern: { type: 'string', description: 'File path or glob pattern (e.g., "README.md", "docs/*.md", "**/*.md")' },
+            pattern: { type: 'string', description: 'Heading regex with a level and a title capture group (default: Markdown "#" headings with the m flag)' },
+            flags: { type: 'string', description: 'Optional regex flags' },
+            level_group: { type: ['number', 'string'], description: 'Group giving the level, as digits (e.g., <h2>) or by its length (e.g., "##") (default: group "level", else 1)' },
+            title_group: { type: ['number', 'string'], description: 'Group giving the title (default: group "title", else 2)' },
+            section: { type: 'string', description: 'Title path of the sections to return, titles separated by " > "; the first title may be at any level' },
+            skip_fences: { type: 'boolean', description: 'Ignore headings inside ``` and ~~~ fenced code blocks (default: true)' },
+            exclude: { type: 'array', items: { type: 'string' }, description: 'Glob patterns to exclude' },
+            respect_ignore_files: { type: 'boolean', description: 'Skip files excluded by .gitignore, .ignore and .git/info/exclude (default: true)' },
+            binary_check_buffer_size: { type: 'number', description: 'Bytes to check for binary' },
+            timeout: { type: 'number', description: 'Operation timeout in seconds (default: 30)' },
+            regex_time_budget_ms: { type: 'number', description: 'Time the regex may run on a single file in milliseconds; a runaway pattern fails with an error (default: 5000)' },
+            max_results: { type: 'number', description: 'Global limit for results (files) across all files (default: 100)' },
+            max_file_size: { type: 'number', description: 'Files larger than this many bytes are skipped as too_large (default: 52428800, <=0: no limit)' },
+            encoding: { type: 'string', enum: ['auto', 'utf-8', 'utf-16le', 'utf-16be', 'latin1'], description: 'File encoding; "auto" detects UTF-8/UTF-16 from the byte order mark and otherwise reads UTF-8 (default: "auto")' },
+            cursor: { type: 'string', description: 'next_cursor from a previous call with the same parameters, to fetch the next page' },
+          },
+          required: ['path_pattern'],
+        },
+      },
+      {
+        name: 'regex_undo',
+        description: 'Undo file changes made by regex_replace, using the journal recorded for every non-dry-run replace. Restores one operation (operation_id) or the last N operations. Refuses if a file has changed since the replacement.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            operation_id: { type: 'string', description: 'Operation id returned by regex_replace' },
+            last: { type: 'number', description: 'Undo the last N operations, newest first (default: 1 when operation_id is not given)' },
+            state_dir: { type: 'string', description: 'Directory for the undo journal (default: $FS_REGEX_MCP_STATE_DIR or ~/.fs-regex-mcp)' },
+          },
+        },
+      },
     ];
   }
 
@@ -207,12 +377,33 @@ class RegexMCPServer {
   }
 
   private async handleRegexReplace(args: unknown) {
-    const results = await regexReplace(args as any);
+    const { preview_token } = (args ?? {}) as { preview_token?: string };
+    const response = preview_token ? await regexApplyPreview(args as any) : await regexReplace(args as any);
+
+    // In diff mode return the raw patch so it can be reviewed or applied directly,
+    // followed by the remaining response fields (preview token, operation id)
+    if (response.diffs) {
+      const patch = response.diffs.map(d => d.diff).join('');
+      const { diffs, matches, ...details } = response;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: patch || 'No changes',
+          },
+          {
+            type: 'text',
+            text: JSON.stringify(details, null, 2),
+          },
+        ],
+      };
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(results, null, 2),
+          text: JSON.stringify(response, null, 2),
         },
       ],
     };
@@ -254,6 +445,66 @@ class RegexMCPServer {
     };
   }
 
+  private async handleRegexBinarySearch(args: unknown) {
+    const results = await regexBinarySearch(args as any);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRegexQuery(args: unknown) {
+    const results = await regexQuery(args as any);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRegexCount(args: unknown) {
+    const results = await regexCount(args as any);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRegexSections(args: unknown) {
+    const results = await regexSections(args as any);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleRegexUndo(args: unknown) {
+    const results = await regexUndo(args as any);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  }
+
   async run(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -0,0 +1,232 @@
+import path from 'path';
+import os from 'os';
+import { promises as fs } from 'fs';
+import { createHash, randomBytes } from 'crypto';
+import { JournalEntry, ReplacePreview, ReplacePreviewFile } from './types.js';
+
+/**
+ * Environment variable overriding the default state directory
+ */
+export const STATE_DIR_ENV = 'FS_REGEX_MCP_STATE_DIR';
+
+/**
+ * Resolve the state directory used for the replace journal and previews
+ * @param stateDir - Explicit state directory (takes precedence)
+ * @returns State directory: explicit value, $FS_REGEX_MCP_STATE_DIR, or ~/.fs-regex-mcp
+ */
+export function resolveStateDir(stateDir?: string): string {
+  return path.resolve(stateDir || process.env[STATE_DIR_ENV] || path.join(os.homedir(), '.fs-regex-mcp'));
+}
+
+/**
+ * Get the journal directory inside a state directory
+ */
+function journalDir(stateDir: string): string {
+  return path.join(stateDir, 'journal');
+}
+
+/**
+ * Reject ids that could escape the state directory
+ */
+function validateId(id: string, kind: string): string {
+  if (!/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid ${kind}: ${id}`);
+  }
+  return id;
+}
+
+/**
+ * Get the journal file path for an operation
+ */
+function journalFile(stateDir: string, operationId: string): string {
+  return path.join(journalDir(stateDir), `${validateId(operationId, 'operation id')}.jsonl`);
+}
+
+/**
+ * Number of journaled operations kept; older ones are pruned when a new one is recorded
+ */
+export const MAX_JOURNAL_OPERATIONS = 100;
+
+/**
+ * Number of stored replace previews kept; older ones are pruned when a new one is saved
+ */
+export const MAX_STORED_PREVIEWS = 100;
+
+/**
+ * Get the directory of stored replace previews inside a state directory
+ */
+function previewDir(stateDir: string): string {
+  return path.join(stateDir, 'previews');
+}
+
+/**
+ * Get the file path of a stored replace preview
+ */
+function previewFile(stateDir: string, token: string): string {
+  return path.join(previewDir(stateDir), `${validateId(token, 'preview token')}.json`);
+}
+
+/**
+ * Compute the SHA-256 hash of file content
+ * @param content - Raw bytes or string (hashed as UTF-8)
+ * @returns Hex digest
+ */
+export function hashContent(content: Buffer | string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Create a new operation id. Ids sort chronologically.
+ * @returns Operation id, e.g. "20250101T120000000Z-a1b2c3"
+ */
+export function createOperationId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, '');
+  return `${timestamp}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Append an entry to an operation's journal. Must be called before the file is modified.
+ * Only the newest MAX_JOURNAL_OPERATIONS operations are kept, so the journal does not grow without bound.
+ * @param stateDir - Resolved state directory
+ * @param entry - Journal entry
+ */
+export async function recordJournalEntry(stateDir: string, entry: JournalEntry): Promise<void> {
+  await fs.mkdir(journalDir(stateDir), { recursive: true });
+  await fs.appendFile(journalFile(stateDir, entry.operation_id), JSON.stringify(entry) + '\n', 'utf-8');
+
+  const operations = await listOperations(stateDir);
+  await Promise.all(
+    operations.slice(0, -MAX_JOURNAL_OPERATIONS).map(operationId => removeOperation(stateDir, operationId))
+  );
+}
+
+/**
+ * Drop the entry of a file from an operation's journal, after writing the file failed.
+ * An operation left without entries is removed.
+ * @param stateDir - Resolved state directory
+ * @param operationId - Operation id
+ * @param file - File whose entry to drop
+ */
+export async function discardJournalEntry(stateDir: string, operationId: string, file: string): Promise<void> {
+  const entries = (await readJournal(stateDir, operationId)).filter(entry => entry.file !== file);
+  if (entries.length === 0) {
+    await removeOperation(stateDir, operationId);
+    return;
+  }
+  await fs.writeFile(
+    journalFile(stateDir, operationId),
+    entries.map(entry => JSON.stringify(entry) + '\n').join(''),
+    'utf-8'
+  );
+}
+
+/**
+ * Read all entries of an operation's journal
+ * @param stateDir - Resolved state directory
+ * @param operationId - Operation id
+ * @returns Journal entries in the order files were modified
+ * @throws Error if the operation is not in the journal
+ */
+export async function readJournal(stateDir: string, operationId: string): Promise<JournalEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(journalFile(stateDir, operationId), 'utf-8');
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Operation not found in journal: ${operationId}`);
+    }
+    throw error;
+  }
+
+  return content
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line) as JournalEntry);
+}
+
+/**
+ * List journaled operation ids, oldest first
+ * @param stateDir - Resolved state directory
+ * @returns Operation ids
+ */
+export async function listOperations(stateDir: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(journalDir(stateDir));
+    return names
+      .filter(name => name.endsWith('.jsonl'))
+      .map(name => name.slice(0, -'.jsonl'.length))
+      .sort();
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove an operation from the journal
+ * @param stateDir - Resolved state directory
+ * @param operationId - Operation id
+ */
+export async function removeOperation(stateDir: string, operationId: string): Promise<void> {
+  await fs.rm(journalFile(stateDir, operationId), { force: true });
+}
+
+/**
+ * Store the edits of a replace dry run so they can be applied later. Only the newest
+ * MAX_STORED_PREVIEWS previews are kept, so unapplied dry runs do not pile up.
+ * @param stateDir - Resolved state directory
+ * @param files - Previewed files with their content hash and edits
+ * @returns Preview token
+ */
+export async function savePreview(stateDir: string, files: ReplacePreviewFile[]): Promise<string> {
+  const preview: ReplacePreview = {
+    token: createOperationId(),
+    created_at: new Date().toISOString(),
+    files,
+  };
+
+  await fs.mkdir(previewDir(stateDir), { recursive: true });
+  await fs.writeFile(previewFile(stateDir, preview.token), JSON.stringify(preview), 'utf-8');
+  await prunePreviews(stateDir);
+  return preview.token;
+}
+
+/**
+ * Remove all but the newest MAX_STORED_PREVIEWS previews. Tokens sort chronologically.
+ * @param stateDir - Resolved state directory
+ */
+async function prunePreviews(stateDir: string): Promise<void> {
+  const names = (await fs.readdir(previewDir(stateDir))).filter(name => name.endsWith('.json')).sort();
+  await Promise.all(
+    names.slice(0, -MAX_STORED_PREVIEWS).map(name => fs.rm(path.join(previewDir(stateDir), name), { force: true }))
+  );
+}
+
+/**
+ * Load a stored replace preview
+ * @param stateDir - Resolved state directory
+ * @param token - Preview token
+ * @returns Stored preview
+ * @throws Error if the token is unknown or was already applied
+ */
+export async function loadPreview(stateDir: string, token: string): Promise<ReplacePreview> {
+  try {
+    return JSON.parse(await fs.readFile(previewFile(stateDir, token), 'utf-8')) as ReplacePreview;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Preview not found or already applied: ${token}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a stored replace preview
+ * @param stateDir - Resolved state directory
+ * @param token - Preview token
+ */
+export async function removePreview(stateDir: string, token: string): Promise<void> {
+  await fs.rm(previewFile(stateDir, token), { force: true });
+}
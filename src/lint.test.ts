@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { lintPattern } from './lint.js';
+
+const codes = (pattern: string, flags = '', perLine = false) =>
+  lintPattern({ pattern, flags }, { perLine }).map((w) => w.code);
+
+describe('lintPattern', () => {
+  it('should return no warnings for a plain pattern', () => {
+    expect(lintPattern({ pattern: 'function\\s+(\\w+)', flags: 'g' })).toEqual([]);
+  });
+
+  it('should flag nested quantifiers', () => {
+    const [warning] = lintPattern({ pattern: '(a+)+$', flags: 'm' });
+    expect(warning.code).toBe('nested_quantifier');
+    expect(warning.message).toContain('"(a+)+"');
+    expect(codes('(?:\\w*\\s?)*x')).toContain('nested_quantifier');
+    expect(codes('((ab)+c)*')).toContain('nested_quantifier');
+  });
+
+  it('should not flag bounded or sequential quantifiers', () => {
+    expect(codes('(a+)?b')).toEqual([]);
+    expect(codes('(ab){2}')).toEqual([]);
+    expect(codes('a+b+')).toEqual([]);
+    expect(codes('[(a+)]+')).toEqual([]);
+  });
+
+  it('should flag anchors without the m flag', () => {
+    expect(codes('^import')).toEqual(['anchor_without_multiline']);
+    expect(codes('^import', 'm')).toEqual([]);
+    expect(codes('\\^\\$')).toEqual([]);
+    expect(codes('[$^]')).toEqual([]);
+  });
+
+  it('should flag line-spanning dots without the s flag', () => {
+    expect(codes('start.*\\n.*end')).toEqual(['dot_without_dotall']);
+    expect(codes('start.*\\n.*end', 's')).toEqual([]);
+    expect(codes('start.*end')).toEqual([]);
+  });
+
+  it('should flag unescaped dots in file names', () => {
+    const [warning] = lintPattern({ pattern: 'require\\("lodash.js"\\)', flags: '' });
+    expect(warning.code).toBe('unescaped_dot');
+    expect(warning.message).toContain('"lodash.js"');
+    expect(codes('package\\.json')).toEqual([]);
+    expect(codes('\\w.ts')).toEqual([]);
+    expect(codes('a.b.c.d')).toContain('unescaped_dot');
+  });
+
+  it('should skip line-spanning checks for per-line matching', () => {
+    expect(codes('^TODO.*\\n', '', true)).toEqual([]);
+  });
+});
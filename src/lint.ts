@@ -0,0 +1,178 @@
+import { ParsedPattern, PatternWarning } from './types.js';
+
+/**
+ * Options for linting a pattern
+ */
+export interface LintOptions {
+  perLine?: boolean; // The regex is tested against single lines, so line-spanning checks do not apply
+}
+
+/**
+ * A group being scanned, tracking whether it contains unbounded repetition
+ */
+interface GroupFrame {
+  start: number;
+  unbounded: boolean;
+}
+
+/**
+ * Length of a quantifier at position i, or 0 if there is none
+ */
+function quantifierLength(pattern: string, i: number): number {
+  const char = pattern[i];
+  if (char === '*' || char === '+' || char === '?') {
+    return pattern[i + 1] === '?' ? 2 : 1;
+  }
+  const braces = /^\{\d+(?:,\d*)?\}\??/.exec(pattern.slice(i));
+  return braces ? braces[0].length : 0;
+}
+
+/**
+ * Whether a quantifier allows unlimited repetition (*, +, {n,})
+ */
+function isUnbounded(quantifier: string): boolean {
+  return /^[*+]|^\{\d+,\}/.test(quantifier);
+}
+
+/**
+ * Analyze a pattern for common mistakes that make it slow or match something other
+ * than intended. The pattern is not rejected; the warnings are meant to be returned
+ * alongside the results.
+ * Checks: nested unbounded quantifiers (catastrophic backtracking), ^/$ without the
+ * m flag, line-spanning .* without the s flag, and unescaped dots in file names.
+ * @param parsedPattern - Parsed pattern and flags
+ * @param options - Lint options
+ * @returns Warnings, at most one per kind
+ */
+export function lintPattern(parsedPattern: ParsedPattern, options: LintOptions = {}): PatternWarning[] {
+  const { pattern, flags } = parsedPattern;
+  const warnings = new Map<string, string>();
+  const warn = (code: string, message: string) => {
+    if (!warnings.has(code)) {
+      warnings.set(code, message);
+    }
+  };
+
+  const stack: GroupFrame[] = [{ start: 0, unbounded: false }];
+  const anchors = new Set<string>();
+  let spansLines = false;
+  let repeatedDot = false;
+
+  // The last atom, which a following quantifier applies to
+  let atom: { start: number; group?: GroupFrame } | null = null;
+
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      if (pattern[i + 1] === 'n' || pattern[i + 1] === 'r') {
+        spansLines = true;
+      }
+      atom = { start: i };
+      i += 2;
+      continue;
+    }
+
+    if (char === '[') {
+      // Skip the character class; nothing inside it is an anchor, group or wildcard
+      const classStart = i;
+      i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      spansLines ||= /\\[nr]/.test(pattern.slice(classStart, i));
+      atom = { start: classStart };
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      stack.push({ start: i, unbounded: false });
+      atom = null;
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      const group = stack.length > 1 ? stack.pop()! : null;
+      if (group) {
+        stack[stack.length - 1].unbounded ||= group.unbounded;
+        atom = { start: group.start, group };
+      }
+      i++;
+      continue;
+    }
+
+    const length = quantifierLength(pattern, i);
+    if (length > 0) {
+      const quantifier = pattern.slice(i, i + length);
+      if (atom && isUnbounded(quantifier)) {
+        if (atom.group?.unbounded) {
+          const snippet = pattern.slice(atom.start, i + length);
+          warn(
+            'nested_quantifier',
+            `Nested quantifier "${snippet}" can cause catastrophic backtracking; remove the inner or outer repetition`
+          );
+        }
+        if (pattern[atom.start] === '.' && !atom.group) {
+          repeatedDot = true;
+        }
+        stack[stack.length - 1].unbounded = true;
+      }
+      atom = null;
+      i += length;
+      continue;
+    }
+
+    if (char === '|') {
+      atom = null;
+      i++;
+      continue;
+    }
+
+    if (char === '^' || char === '$') {
+      anchors.add(char);
+      atom = null;
+      i++;
+      continue;
+    }
+
+    if (char === '\n' || char === '\r') {
+      spansLines = true;
+    }
+
+    if (char === '.') {
+      // A dot between word characters, followed by a short extension, looks like a file name
+      const before = /[A-Za-z0-9_-]+$/.exec(pattern.slice(0, i));
+      const after = /^[A-Za-z][A-Za-z0-9]{0,4}(?![A-Za-z0-9])/.exec(pattern.slice(i + 1));
+      const escapedBefore = before && pattern[before.index - 1] === '\\';
+      if (before && after && !escapedBefore) {
+        const name = before[0] + '.' + after[0];
+        warn('unescaped_dot', `Unescaped "." in "${name}" matches any character; use "\\." to match a literal dot`);
+      }
+    }
+
+    atom = { start: i };
+    i++;
+  }
+
+  if (!options.perLine) {
+    if (anchors.size > 0 && !flags.includes('m')) {
+      const found = [...anchors].map(anchor => `"${anchor}"`).join(' and ');
+      warn(
+        'anchor_without_multiline',
+        `${found} match only at the start/end of the whole file without the m flag; add "m" to match at line boundaries`
+      );
+    }
+
+    if (repeatedDot && spansLines && !flags.includes('s')) {
+      warn(
+        'dot_without_dotall',
+        '"." does not match line breaks without the s flag, so ".*" stops at the end of a line; add "s" or use [\\s\\S]'
+      );
+    }
+  }
+
+  return [...warnings].map(([code, message]) => ({ code, message }));
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { findMatches, testLines, testLineRanges, countMatches, REGEX_BUDGET_EXCEEDED } from './matcher.js';
+import { findAllMatches } from './utils.js';
+
+describe('findMatches', () => {
+  const options = { file: 'test.txt' };
+
+  it('should return the same matches as findAllMatches', async () => {
+    const text = 'key=alpha\nkey=beta\n';
+    const regex = /key=(?<value>\w+)/g;
+    const matches = await findMatches(text, regex, undefined, options);
+
+    expect(matches.map((m) => m.index)).toEqual(findAllMatches(text, regex).map((m) => m.index));
+    expect(Array.from(matches[1].match)).toEqual(['key=beta', 'beta']);
+    expect(matches[1].match.groups).toEqual({ value: 'beta' });
+  });
+
+  it('should respect maxMatches', async () => {
+    const matches = await findMatches('a a a', /a/g, 1, options);
+    expect(matches).toHaveLength(1);
+  });
+
+  it('should reject with the abort reason', async () => {
+    const controller = new AbortController();
+    const pending = findMatches('a'.repeat(30) + '!', /(a+)+$/, undefined, { ...options, signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+  });
+
+  it('should stop a catastrophically backtracking regex at the time budget', async () => {
+    const pending = findMatches('a'.repeat(40) + '!', /(a+)+$/, undefined, { file: 'slow.txt', budgetMs: 100 });
+    await expect(pending).rejects.toMatchObject({
+      code: REGEX_BUDGET_EXCEEDED,
+      message: 'Regex exceeded time budget of 100ms on file slow.txt',
+    });
+
+    // A fresh worker takes over
+    expect(await findMatches('ok', /ok/, undefined, options)).toHaveLength(1);
+  });
+});
+
+describe('testLines', () => {
+  it('should test each line independently of lastIndex', async () => {
+    expect(await testLines('foo\nbar\nfoo', /foo/g, { file: 'test.txt' })).toEqual([true, false, true]);
+  });
+});
+
+describe('countMatches', () => {
+  it('should count matches and group values', async () => {
+    const result = await countMatches('a=1 b=2 c=1 d', /\w(?:=(?<v>\d))?/g, 'v', { file: 'test.txt' });
+
+    expect(result.count).toBe(4);
+    expect(result.values).toEqual(
+      new Map<string | null, number>([
+        ['1', 2],
+        ['2', 1],
+        [null, 1],
+      ])
+    );
+  });
+
+  it('should count empty matches once per position', async () => {
+    expect(await countMatches('abc', /x*/, undefined, { file: 'test.txt' })).toEqual({ count: 4, values: undefined });
+  });
+});
+
+describe('testLineRanges', () => {
+  it('should find the first match in the joined lines of each range', async () => {
+    const ranges: Array<[number, number]> = [
+      [0, 2],
+      [1, 3],
+      [2, 3],
+    ];
+
+    expect(await testLineRanges('a\nb c\nd', /b c\nd/g, ranges, { file: 'test.txt' })).toEqual([
+      null,
+      { index: 0, end: 5 },
+      null,
+    ]);
+  });
+});
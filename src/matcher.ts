@@ -0,0 +1,330 @@
+import os from 'os';
+import { Worker } from 'worker_threads';
+import { codedError } from './utils.js';
+
+/**
+ * Default time a regex may run on a single file, in milliseconds
+ */
+export const DEFAULT_REGEX_TIME_BUDGET_MS = 5000;
+
+/**
+ * Error code of the error thrown when a regex exceeds its time budget
+ */
+export const REGEX_BUDGET_EXCEEDED = 'EREGEXBUDGET';
+
+/**
+ * Maximum number of matcher worker threads. os.availableParallelism() is missing before Node 18.14.
+ */
+export const MAX_WORKERS = Math.max(1, Math.min(4, (os.availableParallelism?.() ?? os.cpus().length) - 1));
+
+/**
+ * A match as returned by findMatches
+ */
+export interface MatchRecord {
+  index: number;
+  match: RegExpExecArray;
+}
+
+/**
+ * Options for running a regex in a worker
+ */
+export interface MatchOptions {
+  file: string; // File the text was read from, reported when the budget is exceeded
+  budgetMs?: number; // Time budget for this call (default: 5000)
+  signal?: AbortSignal; // Terminates the running worker when aborted
+}
+
+/**
+ * Match count returned by countMatches
+ */
+export interface MatchCount {
+  count: number;
+  values?: Map<string | null, number>; // Occurrences of each value of the counted group (null: group did not participate)
+}
+
+/**
+ * Position of the first match in a range of lines, relative to the joined lines of the range
+ */
+export interface RangeMatch {
+  index: number;
+  end: number;
+}
+
+/**
+ * Task sent to a matcher worker
+ */
+interface MatchTask {
+  op: 'matchAll' | 'testLines' | 'testRanges' | 'count';
+  source: string;
+  flags: string;
+  text: string;
+  maxMatches?: number;
+  from?: number;
+  group?: number | string;
+  ranges?: Array<[number, number]>;
+}
+
+/**
+ * Match as transferred from a worker
+ */
+interface WorkerMatch {
+  index: number;
+  groups: Array<string | undefined>;
+  named?: Record<string, string | undefined>;
+}
+
+/**
+ * Reply from a matcher worker
+ */
+type MatchReply = { ok: true; value: unknown } | { ok: false; error: string };
+
+/**
+ * Worker script, evaluated as CommonJS so that it runs from both the compiled
+ * output and the TypeScript sources. matchAll mirrors findAllMatches; count walks the
+ * matches the same way.
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+
+const ops = {
+  matchAll(regex, { text, maxMatches, from }) {
+    const globalRegex = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+    globalRegex.lastIndex = from ?? 0;
+    const matches = [];
+    let match;
+    while ((match = globalRegex.exec(text)) !== null) {
+      matches.push({ index: match.index, groups: Array.from(match), named: match.groups });
+      if (maxMatches && matches.length >= maxMatches) {
+        break;
+      }
+      if (match.index === globalRegex.lastIndex) {
+        globalRegex.lastIndex++;
+      }
+    }
+    return matches;
+  },
+  testLines(regex, { text }) {
+    return text.split('\\n').map(line => {
+      regex.lastIndex = 0;
+      return regex.test(line);
+    });
+  },
+  testRanges(regex, { text, ranges }) {
+    const lines = text.split('\\n');
+    return ranges.map(([start, end]) => {
+      regex.lastIndex = 0;
+      const match = regex.exec(lines.slice(start, end).join('\\n'));
+      return match && { index: match.index, end: match.index + match[0].length };
+    });
+  },
+  count(regex, { text, group }) {
+    const globalRegex = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
+    const values = group === undefined ? undefined : new Map();
+    let count = 0;
+    let match;
+    while ((match = globalRegex.exec(text)) !== null) {
+      count++;
+      if (values) {
+        const value = (typeof group === 'number' ? match[group] : match.groups?.[group]) ?? null;
+        values.set(value, (values.get(value) ?? 0) + 1);
+      }
+      if (match.index === globalRegex.lastIndex) {
+        globalRegex.lastIndex++;
+      }
+    }
+    return { count, values };
+  },
+};
+
+parentPort.on('message', task => {
+  try {
+    const regex = new RegExp(task.source, task.flags);
+    parentPort.postMessage({ ok: true, value: ops[task.op](regex, task) });
+  } catch (error) {
+    parentPort.postMessage({ ok: false, error: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+/**
+ * Lazily started pool of matcher workers. Workers are reused across calls and
+ * unref'd so they never keep the process alive. A worker that overruns its time
+ * budget or is aborted is terminated and replaced, which is the only way to stop
+ * a regex stuck in catastrophic backtracking.
+ */
+class MatcherPool {
+  private idle: Worker[] = [];
+  private size = 0;
+  private waiting: Array<(worker: Worker) => void> = [];
+
+  constructor(private readonly maxSize: number) {}
+
+  /**
+   * Run a task on a pooled worker
+   * @throws The abort reason if the signal fires, or an EREGEXBUDGET error if the budget runs out
+   */
+  async run(task: MatchTask, options: MatchOptions): Promise<unknown> {
+    const { file, budgetMs = DEFAULT_REGEX_TIME_BUDGET_MS, signal } = options;
+
+    signal?.throwIfAborted();
+    const worker = await this.acquire();
+
+    if (signal?.aborted) {
+      this.release(worker);
+      throw signal.reason;
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const fail = (error: unknown) => {
+        cleanup();
+        this.discard(worker);
+        reject(error);
+      };
+      const onMessage = (reply: MatchReply) => {
+        cleanup();
+        this.release(worker);
+        if (reply.ok) {
+          resolve(reply.value);
+        } else {
+          reject(new Error(reply.error));
+        }
+      };
+      const onError = (error: Error) => fail(error);
+      const onExit = () => fail(new Error('Matcher worker exited unexpectedly'));
+      const onAbort = () => fail(signal!.reason);
+
+      const timer = setTimeout(
+        () => fail(codedError(`Regex exceeded time budget of ${budgetMs}ms on file ${file}`, REGEX_BUDGET_EXCEEDED)),
+        budgetMs
+      );
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage(task);
+    });
+  }
+
+  private acquire(): Promise<Worker> {
+    const worker = this.idle.pop();
+    if (worker) {
+      return Promise.resolve(worker);
+    }
+    if (this.size < this.maxSize) {
+      this.size++;
+      const created = new Worker(WORKER_SOURCE, { eval: true });
+      created.unref();
+      return Promise.resolve(created);
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(worker: Worker): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  // Terminate a worker that may be busy, and let a waiting task start a fresh one
+  private discard(worker: Worker): void {
+    void worker.terminate();
+    this.size--;
+    const next = this.waiting.shift();
+    if (next) {
+      this.acquire().then(next);
+    }
+  }
+}
+
+const pool = new MatcherPool(MAX_WORKERS);
+
+/**
+ * Find all matches in a string with their positions, like findAllMatches,
+ * running the regex in an isolated worker thread
+ * @param text - Text to search
+ * @param regex - Regular expression
+ * @param maxMatches - Maximum number of matches to find
+ * @param options - File name, time budget and abort signal
+ * @param from - Index to start searching at; text before it is still seen by lookbehinds and anchors
+ * @returns Array of match objects with index and groups
+ * @throws EREGEXBUDGET error if matching takes longer than the budget
+ */
+export async function findMatches(
+  text: string,
+  regex: RegExp,
+  maxMatches: number | undefined,
+  options: MatchOptions,
+  from = 0
+): Promise<MatchRecord[]> {
+  const matches = (await pool.run(
+    { op: 'matchAll', source: regex.source, flags: regex.flags, text, maxMatches, from },
+    options
+  )) as WorkerMatch[];
+
+  // Rebuild exec arrays so callers can treat worker results like native matches
+  return matches.map(({ index, groups, named }) => {
+    const match = Object.assign(groups, { index, input: text, groups: named }) as RegExpExecArray;
+    return { index, match };
+  });
+}
+
+/**
+ * Test each line of a text against a regex in an isolated worker thread
+ * @param text - Text to test, split on "\n"
+ * @param regex - Regular expression
+ * @param options - File name, time budget and abort signal
+ * @returns Whether each line matches
+ * @throws EREGEXBUDGET error if matching takes longer than the budget
+ */
+export async function testLines(text: string, regex: RegExp, options: MatchOptions): Promise<boolean[]> {
+  return (await pool.run({ op: 'testLines', source: regex.source, flags: regex.flags, text }, options)) as boolean[];
+}
+
+/**
+ * Find the first match of a regex in ranges of lines of a text, in an isolated worker thread.
+ * The lines of each range are joined with "\n" and tested as one text.
+ * @param text - Text to test, split on "\n"
+ * @param regex - Regular expression
+ * @param ranges - Ranges of lines, as start (inclusive) and end (exclusive) line indexes
+ * @param options - File name, time budget and abort signal
+ * @returns The first match in each range, or null if the range does not match
+ * @throws EREGEXBUDGET error if matching takes longer than the budget
+ */
+export async function testLineRanges(
+  text: string,
+  regex: RegExp,
+  ranges: Array<[number, number]>,
+  options: MatchOptions
+): Promise<Array<RangeMatch | null>> {
+  const task: MatchTask = { op: 'testRanges', source: regex.source, flags: regex.flags, text, ranges };
+  return (await pool.run(task, options)) as Array<RangeMatch | null>;
+}
+
+/**
+ * Count the matches of a regex in an isolated worker thread, without transferring the matches
+ * @param text - Text to search
+ * @param regex - Regular expression
+ * @param group - Capture group (index or name) whose values to count as well
+ * @param options - File name, time budget and abort signal
+ * @returns Number of matches, and the occurrences of each group value if a group was given
+ * @throws EREGEXBUDGET error if matching takes longer than the budget
+ */
+export async function countMatches(
+  text: string,
+  regex: RegExp,
+  group: number | string | undefined,
+  options: MatchOptions
+): Promise<MatchCount> {
+  return (await pool.run({ op: 'count', source: regex.source, flags: regex.flags, text, group }, options)) as MatchCount;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { scanFiles, FileProcessor } from './scan.js';
+
+describe('scanFiles', () => {
+  let tmpDir: string;
+  let files: string[];
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-scan-'));
+    files = Array.from({ length: 6 }, (_, i) => path.join(tmpDir, `file${i}.txt`));
+    await Promise.all(files.map(file => fs.writeFile(file, 'text')));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const options = { binaryCheckSize: 8192, maxResults: 100, signal: new AbortController().signal };
+
+  // Processor returning `count` results per file, later files finishing first
+  const tracking = (count: number) => {
+    const state = { inFlight: 0, maxInFlight: 0 };
+    const processor: FileProcessor<string> = async (file, _textFile, limit) => {
+      state.maxInFlight = Math.max(state.maxInFlight, ++state.inFlight);
+      await new Promise(resolve => setTimeout(resolve, (files.length - files.indexOf(file)) * 5));
+      state.inFlight--;
+      const results = Array.from({ length: count }, (_, i) => `${path.basename(file)}:${i}`);
+      return { results: results.slice(0, limit), more: count > limit };
+    };
+    return { state, processor };
+  };
+
+  it('should process files concurrently and keep results in file order', async () => {
+    const { state, processor } = tracking(1);
+
+    const response = await scanFiles(files, { ...options, processConcurrency: 3 }, processor);
+
+    expect(response.matches).toEqual(files.map(file => `${path.basename(file)}:0`));
+    expect(state.maxInFlight).toBe(3);
+  });
+
+  it('should process one file at a time with processConcurrency 1', async () => {
+    const { state, processor } = tracking(1);
+
+    await scanFiles(files, { ...options, processConcurrency: 1 }, processor);
+
+    expect(state.maxInFlight).toBe(1);
+  });
+
+  it('should drop results of files processed past max_results', async () => {
+    const { processor } = tracking(2);
+    const scan = { ...options, maxResults: 3, processConcurrency: 4 };
+
+    const first = await scanFiles(files, { ...scan, paging: { query: 'q' } }, processor);
+    const second = await scanFiles(files, { ...scan, paging: { query: 'q', cursor: first.next_cursor } }, processor);
+
+    expect(first.matches).toEqual(['file0.txt:0', 'file0.txt:1', 'file1.txt:0']);
+    expect(first.truncated_by).toEqual({ limit: 'max_results', value: 3 });
+    expect(second.matches).toEqual(['file1.txt:1', 'file2.txt:0', 'file2.txt:1']);
+  });
+});
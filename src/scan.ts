@@ -0,0 +1,393 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { readTextFile } from './utils.js';
+import { REGEX_BUDGET_EXCEEDED, MAX_WORKERS } from './matcher.js';
+import { detectFileEncoding } from './stream.js';
+import { PatternWarning, SkippedFile, TextEncoding, TextFile, ToolResponse, TruncationLimit } from './types.js';
+
+/**
+ * Default number of files read ahead concurrently
+ */
+export const DEFAULT_READ_CONCURRENCY = 16;
+
+/**
+ * How a result counts toward the limits: 'counted' results count; 'attached' ones go with the
+ * counted result before them, and 'leading' ones (and results after them) with the counted
+ * result after them
+ */
+export type ResultRole = 'counted' | 'attached' | 'leading';
+
+/**
+ * Options for scanning a list of files
+ */
+export interface ScanOptions<T = unknown> {
+  binaryCheckSize: number;
+  maxResults: number; // Global limit for results across all files
+  perFileLimit?: {
+    name: string; // Parameter name reported when the limit truncates a file
+    value: number; // Parameter value as given by the caller
+    results: number; // Maximum results per file implied by the value
+  };
+  strictDecoding?: boolean; // Skip files that are not valid text instead of decoding lossily
+  encoding?: TextEncoding | 'auto'; // Encoding to read files in (default: 'auto', detected from the BOM)
+  maxFileSize?: number; // Larger files are streamed, or skipped if the tool cannot stream (<= 0: no limit)
+  concurrency?: number; // Files read ahead concurrently (default: 16)
+  processConcurrency?: number; // Files processed concurrently (default: MAX_WORKERS; 1 for side effects)
+  resultRole?: (result: T) => ResultRole; // Default: every result counts; pages never split a group
+  warnings?: PatternWarning[]; // Pattern warnings to include in the response
+  paging?: {
+    query: string; // Query key from queryKey(), ties cursors to the query that produced them
+    cursor?: string; // next_cursor of the previous page
+  };
+  signal: AbortSignal;
+}
+
+/**
+ * Position to resume a scan from, encoded in an opaque cursor
+ */
+interface ScanCursor {
+  query: string;
+  index: number; // Index of the file to resume in the sorted file list
+  file: string; // Path of that file, to detect changes in the file list
+  offset: number; // Results of that file already returned
+}
+
+/**
+ * Outcome of reading one file; read errors are captured rather than rejected
+ * so that reads abandoned by an early stop never surface as unhandled rejections
+ */
+type ReadOutcome = { textFile: TextFile | null } | { tooLarge: number } | { stream: TextEncoding } | { error: unknown };
+
+/**
+ * Outcome of reading and processing one file; processor errors are captured like read errors
+ */
+type ProcessOutcome<T> = { read: ReadOutcome; scanned?: FileScanResult<T>; error?: unknown };
+
+/**
+ * Results produced for one file
+ */
+export interface FileScanResult<T> {
+  results: T[]; // At most `limit` results
+  more?: boolean; // True if the file has further results beyond the limit
+}
+
+/**
+ * Processes one text file, producing at most `limit` results
+ */
+export type FileProcessor<T> = (file: string, textFile: TextFile, limit: number) => Promise<FileScanResult<T>>;
+
+/**
+ * Processes one text file larger than maxFileSize without loading it whole, producing at most `limit` results
+ */
+export type StreamProcessor<T> = (file: string, encoding: TextEncoding, limit: number) => Promise<FileScanResult<T>>;
+
+/**
+ * Create an empty tool response
+ * @param warnings - Pattern warnings, included only if there are any
+ * @returns Response with no matches and nothing scanned
+ */
+export function emptyResponse<T>(warnings: PatternWarning[] = []): ToolResponse<T> {
+  const response: ToolResponse<T> = {
+    matches: [],
+    files_scanned: 0,
+    files_matched: 0,
+    skipped: [],
+    truncated: false,
+  };
+  if (warnings.length > 0) {
+    response.warnings = warnings;
+  }
+  return response;
+}
+
+/**
+ * Describe why a file could not be read
+ * @param file - File path
+ * @param error - Error thrown while reading
+ * @returns Skipped file entry; fs errors use their code (EACCES, ENOENT, ...) as reason
+ */
+export function skippedFile(file: string, error: unknown): SkippedFile {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  const reason = code === 'EDECODE' ? 'decode_error' : code === 'EENCODE' ? 'encode_error' : code || 'error';
+  return { file, reason, message };
+}
+
+/**
+ * Compute the key identifying a query for pagination. Parameters that only
+ * shape a page (cursor, max_results, timeout) are left out.
+ * @param params - Tool parameters
+ * @returns Short hash of the remaining parameters
+ */
+export function queryKey(params: object): string {
+  const query: Record<string, unknown> = { ...params };
+  delete query.cursor;
+  delete query.max_results;
+  delete query.timeout;
+  const json = JSON.stringify(query, Object.keys(query).sort());
+  return createHash('sha256').update(json).digest('hex').slice(0, 16);
+}
+
+/**
+ * Encode a scan position as an opaque cursor string
+ */
+function encodeCursor(cursor: ScanCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and find the file index to resume from
+ * @throws Error if the cursor is malformed, belongs to another query or its file is gone
+ */
+function resolveCursor(cursor: string, query: string, files: string[]): { index: number; offset: number } {
+  let decoded: ScanCursor;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as ScanCursor;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (
+    typeof decoded?.file !== 'string' ||
+    !Number.isInteger(decoded.index) ||
+    !Number.isInteger(decoded.offset) ||
+    decoded.offset < 0
+  ) {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded.query !== query) {
+    throw new Error('Cursor does not belong to this query; repeat the original parameters with the cursor');
+  }
+
+  // Files may have been added or removed since the previous page; resume at the same file
+  const index = files[decoded.index] === decoded.file ? decoded.index : files.indexOf(decoded.file);
+  if (index === -1) {
+    throw new Error(`Cursor is stale: ${decoded.file} is no longer matched`);
+  }
+
+  return { index, offset: decoded.offset };
+}
+
+/**
+ * Read and process files in order, collecting results until max_results is reached.
+ * Up to `concurrency` files are read ahead, and up to `processConcurrency` of them are
+ * processed at once so that their regexes run on several workers. Results are taken in
+ * file order, so they stay in order and nothing further is read once the scan stops;
+ * results of files processed ahead of an early stop are dropped.
+ * With resultRole, only counted results count toward the limits, and a result stays on
+ * one page with the results that go with it.
+ * Files larger than maxFileSize go to streamFile, or are skipped as 'too_large' without one.
+ * Unreadable and binary files are reported in `skipped` rather than silently ignored,
+ * and `truncated` tells whether a limit cut the results short.
+ * With paging, a scan stopped by max_results returns a next_cursor to resume from.
+ * @param files - Files to scan, in a stable order
+ * @param options - Scan options
+ * @param processFile - Per-file processor
+ * @param streamFile - Processor for files larger than maxFileSize
+ * @returns Tool response envelope
+ * @throws The abort reason if the signal fires, or Error if the cursor cannot be resumed
+ */
+export async function scanFiles<T>(
+  files: string[],
+  options: ScanOptions<T>,
+  processFile: FileProcessor<T>,
+  streamFile?: StreamProcessor<T>
+): Promise<ToolResponse<T>> {
+  const {
+    binaryCheckSize,
+    maxResults,
+    perFileLimit,
+    strictDecoding = false,
+    encoding = 'auto',
+    maxFileSize = 0,
+    concurrency = DEFAULT_READ_CONCURRENCY,
+    processConcurrency = MAX_WORKERS,
+    resultRole,
+    warnings,
+    paging,
+    signal,
+  } = options;
+  const response = emptyResponse<T>(warnings);
+  let counted = 0; // Results in response.matches that count toward max_results
+
+  const start = paging?.cursor ? resolveCursor(paging.cursor, paging.query, files) : { index: 0, offset: 0 };
+
+  const resumeAt = (index: number, offset: number) => {
+    if (paging) {
+      response.next_cursor = encodeCursor({ query: paging.query, index, file: files[index], offset });
+    }
+  };
+
+  // Reads in flight, keyed by file index
+  const reads = new Map<number, Promise<ReadOutcome>>();
+  let nextRead = start.index;
+
+  const read = async (file: string): Promise<ReadOutcome> => {
+    try {
+      if (maxFileSize > 0) {
+        const { size } = await fs.stat(file);
+        if (size > maxFileSize) {
+          if (!streamFile) {
+            return { tooLarge: size };
+          }
+          const detected = await detectFileEncoding(file, binaryCheckSize, encoding);
+          return detected ? { stream: detected } : { textFile: null };
+        }
+      }
+      return { textFile: await readTextFile(file, binaryCheckSize, strictDecoding, encoding) };
+    } catch (error) {
+      return { error };
+    }
+  };
+
+  const readAhead = (index: number) => {
+    while (nextRead < files.length && nextRead < index + Math.max(1, concurrency)) {
+      reads.set(nextRead, read(files[nextRead]));
+      nextRead++;
+    }
+  };
+
+  // Results of a file already returned on previous pages are recomputed and dropped, and at most
+  // the results still missing are taken; a file processed ahead may be asked for more than that
+  const limitFor = (index: number) => {
+    const offset = index === start.index ? start.offset : 0;
+    const remaining = maxResults - counted;
+    const limit = perFileLimit ? Math.max(0, Math.min(perFileLimit.results - offset, remaining)) : remaining;
+    return { offset, limit, remaining };
+  };
+
+  // Processing in flight, keyed by file index
+  const processing = new Map<number, Promise<ProcessOutcome<T>>>();
+  let nextProcess = start.index;
+
+  const processAt = async (index: number): Promise<ProcessOutcome<T>> => {
+    const { offset, limit } = limitFor(index);
+    const outcome = await reads.get(index)!;
+    try {
+      if ('textFile' in outcome && outcome.textFile) {
+        return { read: outcome, scanned: await processFile(files[index], outcome.textFile, offset + limit) };
+      }
+      if ('stream' in outcome) {
+        return { read: outcome, scanned: await streamFile!(files[index], outcome.stream, offset + limit) };
+      }
+      return { read: outcome };
+    } catch (error) {
+      return { read: outcome, error };
+    }
+  };
+
+  const processAhead = (index: number) => {
+    const window = Math.min(Math.max(1, processConcurrency), Math.max(1, concurrency));
+    while (nextProcess < files.length && nextProcess < index + window) {
+      processing.set(nextProcess, processAt(nextProcess));
+      nextProcess++;
+    }
+  };
+
+  // Split results into groups of one counted result each, with the results going with it
+  const groupsOf = (results: T[]): T[][] => {
+    if (!resultRole) {
+      return results.map(result => [result]);
+    }
+    const groups: T[][] = [];
+    let leading: T[] = [];
+    for (const result of results) {
+      const role = resultRole(result);
+      if (role === 'counted') {
+        groups.push([...leading, result]);
+        leading = [];
+      } else if (role === 'leading' || leading.length > 0 || groups.length === 0) {
+        leading.push(result);
+      } else {
+        groups[groups.length - 1].push(result);
+      }
+    }
+    if (leading.length > 0 && groups.length > 0) {
+      groups[groups.length - 1].push(...leading);
+    } else if (leading.length > 0) {
+      groups.push(leading);
+    }
+    return groups;
+  };
+
+  const truncate = (limit: TruncationLimit) => {
+    // The global limit wins: it means the scan itself stopped early
+    if (!response.truncated || limit.limit === 'max_results') {
+      response.truncated = true;
+      response.truncated_by = limit;
+    }
+  };
+
+  for (let i = start.index; i < files.length; i++) {
+    const file = files[i];
+
+    if (counted >= maxResults) {
+      truncate({ limit: 'max_results', value: maxResults });
+      resumeAt(i, 0);
+      break;
+    }
+
+    signal.throwIfAborted();
+
+    readAhead(i);
+    processAhead(i);
+    const { read: outcome, scanned, error } = await processing.get(i)!;
+    reads.delete(i);
+    processing.delete(i);
+    signal.throwIfAborted();
+
+    if ('error' in outcome) {
+      response.skipped.push(skippedFile(file, outcome.error));
+      continue;
+    }
+
+    if ('tooLarge' in outcome) {
+      response.skipped.push({
+        file,
+        reason: 'too_large',
+        message: `File is ${outcome.tooLarge} bytes, larger than max_file_size (${maxFileSize})`,
+      });
+      continue;
+    }
+
+    if ('textFile' in outcome && outcome.textFile === null) {
+      response.skipped.push({ file, reason: 'binary' });
+      continue;
+    }
+
+    response.files_scanned++;
+
+    if (!scanned) {
+      // Stop on timeout or a runaway regex, otherwise report this file and continue with others
+      if (signal.aborted || (error as NodeJS.ErrnoException)?.code === REGEX_BUDGET_EXCEEDED) {
+        throw error;
+      }
+      response.skipped.push(skippedFile(file, error));
+      continue;
+    }
+
+    const { offset, limit, remaining } = limitFor(i);
+    const groups = groupsOf(scanned.results);
+    const page = groups.slice(offset, offset + limit);
+    const more = scanned.more || groups.length > offset + limit;
+
+    if (page.length > 0) {
+      response.files_matched++;
+      response.matches.push(...page.flat());
+      counted += page.length;
+      (response.encodings ??= {})[file] = 'textFile' in outcome ? outcome.textFile!.encoding : outcome.stream;
+    }
+
+    if (more) {
+      if (limit === remaining) {
+        truncate({ limit: 'max_results', value: maxResults });
+        resumeAt(i, offset + page.length);
+        break;
+      } else {
+        truncate({ limit: perFileLimit!.name, value: perFileLimit!.value });
+      }
+    }
+  }
+
+  return response;
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { readTextChunks, readLineBlocks, readTextWindows, streamMatches, detectFileEncoding } from './stream.js';
+import { findAllMatches, buildLineIndex, lineAndColumnAt } from './utils.js';
+
+describe('stream', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  // Lines of varying length, with multi-byte characters that straddle chunk boundaries
+  const content = Array.from({ length: 60 }, (_, i) => `line ${i} ${'é'.repeat(i % 7)} value=${i * 3}`).join('\n');
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-stream-'));
+    filePath = path.join(tmpDir, 'large.txt');
+    await fs.writeFile(filePath, content);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('readTextChunks', () => {
+    it('should decode multi-byte characters split across chunks', async () => {
+      let text = '';
+      for await (const chunk of readTextChunks(filePath, { chunkSize: 7 })) {
+        text += chunk;
+      }
+      expect(text).toBe(content);
+    });
+
+    it('should drop a UTF-8 BOM', async () => {
+      await fs.writeFile(filePath, '\uFEFFhello');
+      let text = '';
+      for await (const chunk of readTextChunks(filePath, { chunkSize: 2 })) {
+        text += chunk;
+      }
+      expect(text).toBe('hello');
+    });
+
+    it('should decode UTF-16 split across chunks', async () => {
+      await fs.writeFile(filePath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('héllo\nwörld', 'utf16le')]));
+      let text = '';
+      for await (const chunk of readTextChunks(filePath, { chunkSize: 3, encoding: 'utf-16le' })) {
+        text += chunk;
+      }
+      expect(text).toBe('héllo\nwörld');
+    });
+  });
+
+  describe('readLineBlocks', () => {
+    it('should yield the same lines as splitting the whole text', async () => {
+      const lines: string[] = [];
+      for await (const block of readLineBlocks(filePath, { chunkSize: 16 })) {
+        expect(block.line).toBe(lines.length + 1);
+        lines.push(...block.lines);
+      }
+      expect(lines).toEqual(content.split('\n'));
+    });
+
+    it('should keep a trailing empty line', async () => {
+      await fs.writeFile(filePath, 'a\nb\n');
+      const lines: string[] = [];
+      for await (const block of readLineBlocks(filePath, { chunkSize: 1 })) {
+        lines.push(...block.lines);
+      }
+      expect(lines).toEqual(['a', 'b', '']);
+    });
+  });
+
+  describe('readTextWindows', () => {
+    it('should report the file position of each window', async () => {
+      const lineStarts = buildLineIndex(content);
+      for await (const window of readTextWindows(filePath, 20, 0, { chunkSize: 32 })) {
+        expect(content.slice(window.offset, window.offset + window.text.length)).toBe(window.text);
+        expect(lineAndColumnAt(lineStarts, window.offset)).toEqual({ line: window.line, column: window.column });
+      }
+    });
+
+    it('should cut long lines mid-line', async () => {
+      await fs.writeFile(filePath, 'x'.repeat(100));
+      const windows = [];
+      for await (const window of readTextWindows(filePath, 10, 0, { chunkSize: 16 })) {
+        windows.push(window);
+      }
+      expect(windows.length).toBeGreaterThan(1);
+      expect(windows.every((window) => window.line === 1)).toBe(true);
+      expect(windows[windows.length - 1].end).toBe(Infinity);
+    });
+  });
+
+  describe('streamMatches', () => {
+    const matchOptions = { file: 'large.txt' };
+
+    it('should find the same matches as the whole text', async () => {
+      const regex = /value=(\d+)/g;
+      const expected = findAllMatches(content, regex);
+      const lineStarts = buildLineIndex(content);
+
+      const matches = await streamMatches(filePath, regex, 1000, { overlap: 24, matchOptions, chunkSize: 40 });
+
+      expect(matches.map((m) => Array.from(m.match))).toEqual(expected.map((m) => Array.from(m.match)));
+      expect(matches.map((m) => ({ line: m.line, column: m.column }))).toEqual(
+        expected.map((m) => lineAndColumnAt(lineStarts, m.index))
+      );
+    });
+
+    it('should find matches spanning a chunk boundary once', async () => {
+      await fs.writeFile(filePath, 'aaa\nstart\nend\nbbb\nstart\nend');
+
+      const matches = await streamMatches(filePath, /start\nend/g, 10, { overlap: 12, matchOptions, chunkSize: 5 });
+
+      expect(matches.map((m) => [m.line, m.end_line, m.end_column])).toEqual([
+        [2, 3, 3],
+        [5, 6, 3],
+      ]);
+    });
+
+    it('should return context lines across windows', async () => {
+      const matches = await streamMatches(filePath, /value=90\b/g, 10, {
+        overlap: 16,
+        contextBefore: 2,
+        contextAfter: 1,
+        matchOptions,
+        chunkSize: 32,
+      });
+      const lines = content.split('\n');
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].line).toBe(31);
+      expect(matches[0].context_before).toEqual(lines.slice(28, 30));
+      expect(matches[0].context_after).toEqual([lines[31]]);
+    });
+
+    it('should not treat a window start as the start of the file', async () => {
+      await fs.writeFile(filePath, 'foo bar\n'.repeat(50));
+
+      const matches = await streamMatches(filePath, /^foo/g, 100, { overlap: 16, matchOptions, chunkSize: 32 });
+
+      expect(matches.map((m) => [m.line, m.column])).toEqual([[1, 0]]);
+    });
+
+    it('should let lookbehinds see the text before a window', async () => {
+      // A single long line, so windows are cut mid-line
+      await fs.writeFile(filePath, 'xxxxxxxxxy'.repeat(20));
+
+      for (const regex of [/(?<!x)y/g, /(?<=x{9})y/g, /\by/g]) {
+        const expected = findAllMatches('xxxxxxxxxy'.repeat(20), regex);
+        const matches = await streamMatches(filePath, regex, 100, { overlap: 12, matchOptions, chunkSize: 16 });
+        expect(matches.map((m) => m.column)).toEqual(expected.map((m) => m.index));
+      }
+    });
+
+    it('should stop at maxMatches', async () => {
+      const matches = await streamMatches(filePath, /line/g, 3, { overlap: 16, matchOptions, chunkSize: 32 });
+      expect(matches.map((m) => m.line)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('detectFileEncoding', () => {
+    it('should detect null bytes in the leading bytes only', async () => {
+      await fs.writeFile(filePath, Buffer.concat([Buffer.from('text'), Buffer.from([0])]));
+      expect(await detectFileEncoding(filePath, 8192)).toBeNull();
+      expect(await detectFileEncoding(filePath, 4)).toBe('utf-8');
+      expect(await detectFileEncoding(filePath, 0)).toBe('utf-8');
+    });
+
+    it('should detect a UTF-16 BOM even without binary detection', async () => {
+      await fs.writeFile(filePath, Buffer.from([0xfe, 0xff, 0x00, 0x61]));
+      expect(await detectFileEncoding(filePath, 0)).toBe('utf-16be');
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { createReadStream, promises as fs } from 'fs';
+import { isBinary, detectEncoding, buildLineIndex, lineAndColumnAt, MAX_BOM_LENGTH, DEFAULT_ENCODING } from './utils.js';
+import { findMatches, MatchOptions } from './matcher.js';
+import { TextEncoding } from './types.js';
+
+/**
+ * Default size of file chunks read when streaming, in bytes
+ */
+export const STREAM_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Default number of characters kept from one window to the next, so that matches
+ * spanning a chunk boundary are found
+ */
+export const DEFAULT_STREAM_OVERLAP = 64 * 1024;
+
+/**
+ * A slice of a streamed file
+ */
+export interface TextWindow {
+  text: string;
+  offset: number; // Character offset of text in the file
+  line: number; // Line (1-based) at which text starts
+  column: number; // Column at which text starts; non-zero only when a line is longer than the overlap
+  end: number; // Matches starting at or after this index belong to the next window (Infinity for the last)
+  before: string; // Text just before the window (up to `overlap` characters), for lookbehinds and anchors
+  previousLines: string[]; // Lines just before the window, for context
+}
+
+/**
+ * A block of consecutive lines of a streamed file
+ */
+export interface LineBlock {
+  lines: string[];
+  line: number; // Line number (1-based) of the first line
+}
+
+/**
+ * A match found by streamMatches, with its position in the file
+ */
+export interface StreamMatch {
+  match: RegExpExecArray;
+  line: number;
+  column: number;
+  end_line: number;
+  end_column: number;
+  context_before: string[];
+  context_after: string[];
+}
+
+/**
+ * Options for streaming a file
+ */
+export interface StreamOptions {
+  chunkSize?: number; // Bytes read at a time (default: 1 MiB)
+  encoding?: TextEncoding; // Encoding of the file (default: utf-8)
+  signal?: AbortSignal;
+}
+
+/**
+ * Determine the encoding of a file and whether it looks binary, without reading all of it
+ * @param filePath - Path to file
+ * @param checkSize - Number of leading bytes to check for binary (0 or less = treat as text)
+ * @param requested - Encoding to use, or 'auto' to detect it from the BOM
+ * @returns Encoding of the file, or null if binary data detected
+ */
+export async function detectFileEncoding(
+  filePath: string,
+  checkSize: number,
+  requested: TextEncoding | 'auto' = 'auto'
+): Promise<TextEncoding | null> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(Math.max(checkSize, MAX_BOM_LENGTH));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const head = buffer.subarray(0, bytesRead);
+    const { encoding } = detectEncoding(head, requested);
+    return isBinary(head, checkSize, encoding) ? null : encoding;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Read a file as decoded text chunks. A leading BOM is dropped and multi-byte
+ * characters split across chunks are decoded correctly.
+ * @param filePath - Path to file
+ * @param options - Chunk size and abort signal
+ */
+export async function* readTextChunks(filePath: string, options: StreamOptions = {}): AsyncGenerator<string> {
+  const { chunkSize = STREAM_CHUNK_SIZE, encoding = DEFAULT_ENCODING, signal } = options;
+  // Latin-1 is decoded by Buffer, as TextDecoder treats it as windows-1252
+  const decoder = encoding === 'latin1' ? null : new TextDecoder(encoding);
+  const stream = createReadStream(filePath, { highWaterMark: chunkSize });
+
+  try {
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      const text = decoder ? decoder.decode(chunk as Buffer, { stream: true }) : (chunk as Buffer).toString('latin1');
+      if (text !== '') {
+        yield text;
+      }
+    }
+    const rest = decoder?.decode() ?? '';
+    if (rest !== '') {
+      yield rest;
+    }
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Read a file as blocks of complete lines, split on "\n" like String.prototype.split
+ * @param filePath - Path to file
+ * @param options - Chunk size and abort signal
+ */
+export async function* readLineBlocks(filePath: string, options: StreamOptions = {}): AsyncGenerator<LineBlock> {
+  let partial = '';
+  let line = 1;
+
+  for await (const chunk of readTextChunks(filePath, options)) {
+    const lines = (partial + chunk).split('\n');
+    partial = lines.pop()!;
+    if (lines.length > 0) {
+      yield { lines, line };
+      line += lines.length;
+    }
+  }
+
+  yield { lines: [partial], line };
+}
+
+/**
+ * Read a file as overlapping windows. Each window repeats at least `overlap` characters
+ * of the previous one, cut at a line start where possible, so a match of up to `overlap`
+ * characters is always wholly inside the window that owns its start. The text before
+ * each window comes with it, so that matching can look behind the window start.
+ * @param filePath - Path to file
+ * @param overlap - Characters carried over between windows
+ * @param keepLines - Number of lines before each window to remember for context
+ * @param options - Chunk size and abort signal
+ */
+export async function* readTextWindows(
+  filePath: string,
+  overlap: number,
+  keepLines: number,
+  options: StreamOptions = {}
+): AsyncGenerator<TextWindow> {
+  let carry = '';
+  let offset = 0;
+  let line = 1;
+  let column = 0;
+  let previousLines: string[] = [];
+  let before = '';
+
+  for await (const chunk of readTextChunks(filePath, options)) {
+    const text = carry + chunk;
+    if (text.length <= overlap) {
+      carry = text;
+      continue;
+    }
+
+    // Cut at the start of the line containing the overlap boundary, or mid-line for very long lines
+    let end = text.lastIndexOf('\n', text.length - overlap - 1) + 1;
+    if (end === 0) {
+      end = text.length - overlap;
+    }
+
+    yield { text, offset, line, column, end, before, previousLines };
+
+    const droppedLines = text.slice(0, end).split('\n');
+    const partialLine = droppedLines.pop()!;
+    if (droppedLines.length > 0) {
+      if (keepLines > 0) {
+        previousLines = [...previousLines, ...droppedLines].slice(-keepLines);
+      }
+      line += droppedLines.length;
+      column = partialLine.length;
+    } else {
+      column += end;
+    }
+
+    // At least one character, so that the next window never looks like the start of the file
+    before = (before + text.slice(0, end)).slice(-Math.max(overlap, 1));
+    carry = text.slice(end);
+    offset += end;
+  }
+
+  yield { text: carry, offset, line, column, end: Infinity, before, previousLines };
+}
+
+/**
+ * Find matches in a file without loading it whole. Matches up to `overlap` characters
+ * long, and lookbehinds reaching no further back, are found exactly as in the full text;
+ * longer ones may be missed or cut short.
+ * @param filePath - Path to file
+ * @param regex - Regular expression
+ * @param maxMatches - Stop after this many matches
+ * @param options - Overlap, context lines, chunk size and matcher options
+ * @returns Matches with file positions and context lines, in file order
+ */
+export async function streamMatches(
+  filePath: string,
+  regex: RegExp,
+  maxMatches: number,
+  options: StreamOptions & {
+    overlap?: number;
+    contextBefore?: number;
+    contextAfter?: number;
+    matchOptions: MatchOptions;
+  }
+): Promise<StreamMatch[]> {
+  const { overlap = DEFAULT_STREAM_OVERLAP, contextBefore = 0, contextAfter = 0, matchOptions } = options;
+  const results: StreamMatch[] = [];
+
+  // End of the last match taken; later windows skip matches that start inside it
+  let lastEnd = 0;
+
+  for await (const window of readTextWindows(filePath, overlap, contextBefore, options)) {
+    // Matches are in order, so enough are found once those starting inside the last match
+    // taken (at most one per character) are allowed for
+    const overrun = Math.max(0, lastEnd - window.offset);
+    // Search from the window start, with the text before it in view of lookbehinds and anchors
+    const { before } = window;
+    const limit = maxMatches - results.length + overrun + 1;
+    const found = (await findMatches(before + window.text, regex, limit, matchOptions, before.length)).map(
+      ({ index, match }) => ({ index: index - before.length, match })
+    );
+    const lineStarts = buildLineIndex(window.text);
+    const lines = window.text.split('\n');
+
+    // Convert a window position to a file position
+    const position = (index: number) => {
+      const { line, column } = lineAndColumnAt(lineStarts, index);
+      return { line: window.line + line - 1, column: line === 1 ? window.column + column : column };
+    };
+
+    for (const { index, match } of found) {
+      if (index >= window.end) {
+        break;
+      }
+      if (window.offset + index < lastEnd) {
+        continue;
+      }
+      if (results.length >= maxMatches) {
+        return results;
+      }
+
+      const start = position(index);
+      const end = position(index + match[0].length);
+      const lineIndex = start.line - window.line;
+      const before = [...window.previousLines, ...lines.slice(0, lineIndex)];
+
+      results.push({
+        match,
+        line: start.line,
+        column: start.column,
+        end_line: end.line,
+        end_column: end.column,
+        context_before: contextBefore > 0 ? before.slice(-contextBefore) : [],
+        context_after: lines.slice(lineIndex + 1, lineIndex + 1 + contextAfter),
+      });
+      lastEnd = window.offset + index + match[0].length;
+    }
+  }
+
+  return results;
+}
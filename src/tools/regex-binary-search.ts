@@ -0,0 +1,188 @@
+import {
+  parsePattern,
+  createRegex,
+  findFiles,
+  withTimeout,
+  DEFAULT_TIMEOUT_SECONDS,
+  DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
+} from '../utils.js';
+import { findMatches } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexBinarySearchParams, BinarySearchResult, ParsedPattern, ToolResponse } from '../types.js';
+
+/**
+ * Default number of bytes shown before and after a match
+ */
+const DEFAULT_CONTEXT_BYTES = 16;
+
+/**
+ * Bytes per hexdump row
+ */
+const HEXDUMP_WIDTH = 16;
+
+/**
+ * Convert a hex byte pattern to a regex over latin1 text, where each character is one byte
+ * @param pattern - Bytes as hex pairs, with ?? for any byte; whitespace is ignored (e.g. "4D 5A ?? 00")
+ * @returns Parsed pattern matching exactly those bytes
+ * @throws Error if the pattern is empty or has anything other than hex pairs and ??
+ */
+function parseHexPattern(pattern: string): ParsedPattern {
+  const compact = pattern.replace(/\s+/g, '');
+  const pairs = compact.match(/.{1,2}/g) ?? [];
+
+  if (pairs.length === 0) {
+    throw new Error('Invalid hex pattern: pattern is empty');
+  }
+
+  const source = pairs
+    .map(pair => {
+      if (pair === '??') {
+        return '[\\s\\S]';
+      }
+      if (!/^[0-9a-fA-F]{2}$/.test(pair)) {
+        throw new Error(`Invalid hex pattern: "${pair}" is not a hex byte or ??`);
+      }
+      return `\\x${pair}`;
+    })
+    .join('');
+
+  return { pattern: source, flags: '' };
+}
+
+/**
+ * Format bytes as lowercase hex pairs separated by spaces
+ */
+function toHex(bytes: Buffer): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+/**
+ * Format bytes as ASCII, showing non-printable bytes as "."
+ */
+function toPrintable(bytes: Buffer): string {
+  return Array.from(bytes, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+}
+
+/**
+ * Format a byte range as hexdump -C style rows, aligned to 16-byte boundaries
+ * @param buffer - File content
+ * @param start - First byte to show
+ * @param end - Byte after the last one to show
+ * @returns Rows such as "00000010  4d 5a 90 00 ...  |MZ..|"
+ */
+function hexdump(buffer: Buffer, start: number, end: number): string[] {
+  const rows: string[] = [];
+
+  for (let row = start - (start % HEXDUMP_WIDTH); row < end; row += HEXDUMP_WIDTH) {
+    const bytes = buffer.subarray(row, Math.min(row + HEXDUMP_WIDTH, buffer.length));
+    const left = toHex(bytes.subarray(0, HEXDUMP_WIDTH / 2)).padEnd(23);
+    const right = toHex(bytes.subarray(HEXDUMP_WIDTH / 2)).padEnd(23);
+    rows.push(`${row.toString(16).padStart(8, '0')}  ${left}  ${right}  |${toPrintable(bytes)}|`);
+  }
+
+  return rows;
+}
+
+/**
+ * Search files as raw bytes, for magic numbers, byte signatures or strings embedded in
+ * binary files. Patterns are hex bytes with ?? wildcards, or regexes over the bytes read
+ * as latin1 (one character per byte). Binary files are searched rather than skipped.
+ * @param params - Binary search parameters
+ * @returns Matches with byte offsets and a hexdump around each, with scan statistics
+ * @throws Error string if the pattern is invalid or the operation fails
+ */
+export async function regexBinarySearch(params: RegexBinarySearchParams): Promise<ToolResponse<BinarySearchResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<BinarySearchResult>> => {
+    const {
+      path_pattern,
+      pattern,
+      flags,
+      literal = false,
+      mode = 'hex',
+      context_bytes = DEFAULT_CONTEXT_BYTES,
+      max_matches,
+      exclude = [],
+      respect_ignore_files = true,
+      max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      regex_time_budget_ms,
+      cursor,
+    } = params;
+
+    // Parse pattern, create regex once and check it for likely mistakes
+    const parsedPattern = mode === 'hex' ? parseHexPattern(pattern) : parsePattern(pattern, flags, literal);
+    const regex = createRegex(parsedPattern);
+    const warnings = mode === 'hex' || literal ? [] : lintPattern(parsedPattern);
+
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
+
+    if (files.length === 0) {
+      return emptyResponse(warnings);
+    }
+
+    // Read every file as latin1 without binary detection, so character offsets are byte offsets
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: 0,
+        encoding: 'latin1',
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        perFileLimit: max_matches ? { name: 'max_matches', value: max_matches, results: max_matches } : undefined,
+        signal,
+      },
+      async (file, { content }, limit) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+
+        // Find one match beyond the limit to tell whether results were cut short
+        const matches = await findMatches(content, regex, limit + 1, matchOptions);
+
+        if (matches.length === 0) {
+          return { results: [] };
+        }
+
+        const buffer = Buffer.from(content, 'latin1');
+
+        const results: BinarySearchResult[] = matches.slice(0, limit).map(({ index, match }) => {
+          const length = match[0].length;
+          const bytes = buffer.subarray(index, index + length);
+
+          const result: BinarySearchResult = {
+            file,
+            offset: index,
+            length,
+            hex: toHex(bytes),
+            text: toPrintable(bytes),
+            hexdump: hexdump(
+              buffer,
+              Math.max(0, index - context_bytes),
+              Math.min(buffer.length, index + Math.max(length, 1) + context_bytes)
+            ),
+          };
+          if (mode === 'regex') {
+            result.groups = Array.from(match);
+          }
+          return result;
+        });
+
+        return { results, more: matches.length > limit };
+      }
+    );
+  };
+
+  try {
+    const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
+    return await withTimeout(operation, timeout);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error.message;
+    }
+    throw String(error);
+  }
+}
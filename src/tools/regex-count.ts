@@ -0,0 +1,109 @@
+import {
+  parsePattern,
+  createRegex,
+  captureGroupIndex,
+  findFiles,
+  withTimeout,
+  DEFAULT_BINARY_CHECK_SIZE,
+  DEFAULT_TIMEOUT_SECONDS,
+  DEFAULT_MAX_FILE_SIZE,
+} from '../utils.js';
+import { countMatches } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse } from '../scan.js';
+import { RegexCountParams, CountResult, CountResponse, HistogramBucket, ToolResponse } from '../types.js';
+
+/**
+ * Count pattern matches in files matching the path pattern, without returning the matches.
+ * Every match is counted (there is no max_results cap); with group_by, the values of a
+ * capture group are counted as well, e.g. requests per HTTP status code in a log.
+ * Supports glob patterns (e.g., "*.js", "src/**.ts") for multiple files.
+ * @param params - Count parameters
+ * @returns Per-file counts of files with matches, the total and the histogram, with scan statistics
+ * @throws Error string if the pattern or group is invalid or the operation fails
+ */
+export async function regexCount(params: RegexCountParams): Promise<CountResponse> {
+  const operation = async (signal: AbortSignal): Promise<CountResponse> => {
+    const {
+      path_pattern,
+      pattern,
+      flags,
+      literal = false,
+      group_by,
+      exclude = [],
+      respect_ignore_files = true,
+      binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+    } = params;
+
+    // Parse pattern, create regex once and check it for likely mistakes
+    const parsedPattern = parsePattern(pattern, flags, literal);
+    const regex = createRegex(parsedPattern);
+    if (group_by !== undefined) {
+      captureGroupIndex(parsedPattern.pattern, group_by);
+    }
+    const warnings = literal ? [] : lintPattern(parsedPattern);
+
+    const values = new Map<string | null, number>();
+
+    const buildResponse = (scanned: ToolResponse<CountResult>): CountResponse => {
+      const response: CountResponse = {
+        ...scanned,
+        total: scanned.matches.reduce((sum, { count }) => sum + count, 0),
+      };
+      if (group_by !== undefined) {
+        // Most frequent first, ties in value order for a stable output
+        const histogram: HistogramBucket[] = [...values].map(([value, count]) => ({ value, count }));
+        response.histogram = histogram.sort(
+          (a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value))
+        );
+      }
+      return response;
+    };
+
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
+
+    if (files.length === 0) {
+      return buildResponse(emptyResponse(warnings));
+    }
+
+    // Process files sequentially; each file yields one count, so no limit applies
+    const scanned = await scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: Infinity,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        signal,
+      },
+      async (file, { content }) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+        const { count, values: fileValues } = await countMatches(content, regex, group_by, matchOptions);
+
+        for (const [value, occurrences] of fileValues ?? []) {
+          values.set(value, (values.get(value) ?? 0) + occurrences);
+        }
+
+        return { results: count > 0 ? [{ file, count }] : [] };
+      }
+    );
+
+    return buildResponse(scanned);
+  };
+
+  try {
+    const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
+    return await withTimeout(operation, timeout);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error.message;
+    }
+    throw String(error);
+  }
+}
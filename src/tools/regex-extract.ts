@@ -1,121 +1,249 @@
-import path from 'path';
-import glob from 'fast-glob';
 import {
   parsePattern,
   createRegex,
-  readFileWithBinaryCheck,
-  findAllMatches,
-  getLineAndColumn,
+  buildLineIndex,
+  lineAndColumnAt,
   validateCaptureGroups,
-  normalizeGlobPath,
+  captureGroupNames,
+  captureGroupIndex,
+  findFiles,
   withTimeout,
   DEFAULT_BINARY_CHECK_SIZE,
   DEFAULT_TIMEOUT_SECONDS,
   DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
 } from '../utils.js';
-import { RegexExtractParams, ExtractResult } from '../types.js';
+import { findMatches } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexExtractParams, ExtractResult, ExtractResponse, ExtractValue } from '../types.js';
+
+/**
+ * Default number of sample locations kept per distinct value
+ */
+const DEFAULT_MAX_LOCATIONS = 3;
+
+/**
+ * Quote a CSV field when it holds a separator, quote or line break (RFC 4180); null is an empty field
+ */
+function csvField(value: string | number | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV records
+ * @param columns - Header row, or null to leave it out
+ * @param rows - Field values of each record
+ */
+function toCsv(columns: string[] | null, rows: Array<Array<string | number | null>>): string {
+  const records = columns ? [columns, ...rows] : rows;
+  return records.map(record => record.map(csvField).join(',') + '\n').join('');
+}
+
+/**
+ * Format objects as JSON Lines, one object per line
+ */
+function toJsonLines(records: object[]): string {
+  return records.map(record => JSON.stringify(record) + '\n').join('');
+}
+
+/**
+ * Name a capture group column after the group, or group_N for a numbered group
+ */
+function columnName(names: Array<string | undefined>, group: number): string {
+  return names[group - 1] ?? `group_${group}`;
+}
+
+/**
+ * Collapse extract results with identical values in the key groups
+ * @param results - Extract results in file order
+ * @param keys - Indexes of the key groups
+ * @param names - Capture group names in order, undefined for numbered groups
+ * @param maxLocations - Sample locations kept per value
+ * @returns Distinct values, most frequent first, ties in value order for a stable output
+ */
+function collapseResults(
+  results: ExtractResult[],
+  keys: number[],
+  names: Array<string | undefined>,
+  maxLocations: number
+): ExtractValue[] {
+  const values = new Map<string, ExtractValue>();
+
+  for (const { file, line, groups } of results) {
+    const tuple = keys.map(group => groups[group - 1]);
+    const key = JSON.stringify(tuple);
+
+    let value = values.get(key);
+    if (!value) {
+      value = { groups: tuple, count: 0, locations: [] };
+      const named = keys.filter(group => names[group - 1] !== undefined);
+      if (named.length > 0) {
+        value.named = Object.fromEntries(named.map(group => [names[group - 1], groups[group - 1]]));
+      }
+      values.set(key, value);
+    }
+
+    value.count++;
+    if (value.locations.length < maxLocations) {
+      value.locations.push({ file, line });
+    }
+  }
+
+  return [...values]
+    .sort(([keyA, a], [keyB, b]) => b.count - a.count || keyA.localeCompare(keyB))
+    .map(([, value]) => value);
+}
 
 /**
  * Extract only capture groups from pattern matches in files matching the path pattern.
  * Supports glob patterns (e.g., "*.js", "src/**.ts") for multiple files.
+ * Named groups are also returned by name, and groups that did not participate are null.
+ * With unique or group_by, identical capture tuples collapse into distinct values with
+ * occurrence counts and sample locations, e.g. every feature flag referenced in a repo.
+ * With format csv or jsonl, the results of the page are returned as records in output.
  * @param params - Extract parameters
- * @returns Array of extraction results with only capture groups (group 0 excluded)
- * @throws Error string if operation fails or pattern has no capture groups
+ * @returns Extraction results with only capture groups (group 0 excluded), with scan statistics
+ * @throws Error string if operation fails, pattern has no capture groups or group_by names a group it does not have
  */
-export async function regexExtract(params: RegexExtractParams): Promise<ExtractResult[]> {
-  const operation = async (): Promise<ExtractResult[]> => {
+export async function regexExtract(params: RegexExtractParams): Promise<ExtractResponse> {
+  const operation = async (signal: AbortSignal): Promise<ExtractResponse> => {
     const {
       path_pattern,
       pattern,
       flags,
       max_matches,
+      format = 'json',
+      unique = false,
+      group_by,
+      max_locations = DEFAULT_MAX_LOCATIONS,
       exclude = [],
+      respect_ignore_files = true,
       binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
       max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+      cursor,
     } = params;
 
-    // Parse pattern and validate capture groups
+    // Parse pattern, validate capture groups and check it for likely mistakes
     const parsedPattern = parsePattern(pattern, flags);
     validateCaptureGroups(parsedPattern.pattern);
+    const names = captureGroupNames(parsedPattern.pattern);
+    const named = names.some(name => name !== undefined);
+    const warnings = lintPattern(parsedPattern);
+
+    // Resolve the groups to collapse by: group_by, or every group with unique
+    let keys: number[] | undefined;
+    if (group_by !== undefined) {
+      keys = (Array.isArray(group_by) ? group_by : [group_by]).map(group =>
+        captureGroupIndex(parsedPattern.pattern, group)
+      );
+      if (keys.includes(0)) {
+        throw new Error('group_by takes capture groups; group 0 (the whole match) is not extracted');
+      }
+    } else if (unique) {
+      keys = names.map((_, i) => i + 1);
+    }
 
-    // Find all matching files using glob
-    const globResults = await glob(normalizeGlobPath(path_pattern), {
-      ignore: exclude,
-      absolute: true,
-      onlyFiles: true,
-      followSymbolicLinks: false,
-    });
-
-    // Normalize paths back to native format (converts forward slashes to backslashes on Windows)
-    const files = globResults.map(f => path.normalize(f));
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
 
     if (files.length === 0) {
-      return [];
+      return emptyResponse(warnings);
     }
 
     // Create regex once
     const regex = createRegex(parsedPattern);
 
-    // Process files sequentially, stopping when max_results is reached
-    const allResults: ExtractResult[] = [];
-
-    for (const file of files) {
-      if (allResults.length >= max_results) {
-        break;
-      }
-
-      try {
-        // Read file with binary check
-        const content = await readFileWithBinaryCheck(file, binary_check_buffer_size);
-
-        if (content === null) {
-          // Binary file, skip
-          continue;
-        }
-
-        // Create a fresh regex instance for each file (to reset lastIndex)
-        const fileRegex = new RegExp(regex.source, regex.flags);
-
-        // Calculate remaining space for this file
-        const remaining = max_results - allResults.length;
-        const fileLimit = max_matches ? Math.min(max_matches, remaining) : remaining;
-
-        // Find matches up to the limit
-        const matches = findAllMatches(content, fileRegex, fileLimit);
-
-        if (matches.length === 0) {
-          continue;
-        }
+    // Process files sequentially, stopping when max_results is reached. Collapsing needs every
+    // match, so max_results then limits the distinct values rather than the scan.
+    const response: ExtractResponse = await scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: keys ? Infinity : max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: keys ? undefined : { query: queryKey(params), cursor },
+        perFileLimit: max_matches ? { name: 'max_matches', value: max_matches, results: max_matches } : undefined,
+        signal,
+      },
+      async (file, { content }, limit) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+
+        // Find one match beyond the limit to tell whether results were cut short
+        const matches = await findMatches(content, regex, limit + 1, matchOptions);
+
+        // Index line starts once for all positions in this file
+        const lineStarts = buildLineIndex(content);
 
         // Process each match, extracting only capture groups (not group 0)
-        for (const { index, match } of matches) {
-          if (allResults.length >= max_results) {
-            break;
-          }
-
-          const { line } = getLineAndColumn(content, index);
+        const results: ExtractResult[] = matches.slice(0, limit).map(({ index, match }) => {
+          const { line } = lineAndColumnAt(lineStarts, index);
 
           // Extract only capture groups (skip group 0 which is the full match)
-          const captureGroups = Array.from(match).slice(1);
+          const captureGroups = Array.from(match, group => group ?? null).slice(1);
 
-          allResults.push({
+          const result: ExtractResult = {
             file,
             line,
             groups: captureGroups,
-          });
-        }
-      } catch (error) {
-        // Skip this file and continue with others
-        continue;
+          };
+          if (named) {
+            result.named = Object.fromEntries(
+              Object.entries(match.groups ?? {}).map(([name, group]) => [name, group ?? null])
+            );
+          }
+          return result;
+        });
+
+        return { results, more: matches.length > limit };
+      }
+    );
+
+    if (keys) {
+      const collapsed = collapseResults(response.matches, keys, names, max_locations);
+      response.matches = [];
+      response.values = collapsed.slice(0, max_results);
+      if (collapsed.length > max_results) {
+        response.truncated = true;
+        response.truncated_by = { limit: 'max_results', value: max_results };
+      }
+
+      // Emit the values as text: one column per key group, then the count
+      if (format === 'csv') {
+        const columns = [...keys.map(group => columnName(names, group)), 'count'];
+        response.output = toCsv(columns, response.values.map(({ groups, count }) => [...groups, count]));
+        delete response.values;
+      } else if (format === 'jsonl') {
+        response.output = toJsonLines(response.values);
+        delete response.values;
       }
+      return response;
+    }
+
+    // Emit the records of this page as text; the CSV header only starts the first page
+    if (format === 'csv') {
+      const columns = ['file', 'line', ...names.map((_, i) => columnName(names, i + 1))];
+      const rows = response.matches.map(({ file, line, groups }) => [file, line, ...groups]);
+      response.output = toCsv(cursor === undefined ? columns : null, rows);
+      response.matches = [];
+    } else if (format === 'jsonl') {
+      response.output = toJsonLines(response.matches);
+      response.matches = [];
     }
 
-    return allResults;
+    return response;
   };
 
   try {
     const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
-    return await withTimeout(operation(), timeout);
+    return await withTimeout(operation, timeout);
   } catch (error) {
     if (error instanceof Error) {
       throw error.message;
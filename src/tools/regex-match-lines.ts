@@ -1,26 +1,211 @@
-import path from 'path';
-import glob from 'fast-glob';
 import {
   parsePattern,
   createRegex,
-  readFileWithBinaryCheck,
-  normalizeGlobPath,
+  findFiles,
   withTimeout,
   DEFAULT_BINARY_CHECK_SIZE,
   DEFAULT_TIMEOUT_SECONDS,
   DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
 } from '../utils.js';
-import { RegexMatchLinesParams, MatchLinesResult } from '../types.js';
+import { testLines, testLineRanges, MatchOptions, RangeMatch } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { readLineBlocks } from '../stream.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexMatchLinesParams, MatchLinesResult, ToolResponse } from '../types.js';
+
+/**
+ * Context lines around selected lines, carried across the blocks of a streamed file
+ */
+interface LineContext {
+  before: number; // Lines to show before each selected line
+  after: number; // Lines to show after each selected line
+  pending: MatchLinesResult[]; // Recent unselected lines, shown if a selected line follows
+  remaining: number; // Lines still to show after the last selected line
+  lastLine: number; // Last line added to the results, 0 before the first
+  selected: number; // Selected lines added to the results
+}
+
+/**
+ * Collect the lines selected by the pattern and invert flag. With context, the lines around
+ * them are added too: overlapping windows merge into one block and a separator goes
+ * between blocks, as with grep -C. Only selected lines count toward the limit, and context
+ * is never cut off from its selected lines.
+ * @param file - File path
+ * @param lines - Consecutive lines of the file
+ * @param firstLine - Line number (1-based) of lines[0]
+ * @param lineMatches - Whether each line matches the pattern
+ * @param invert - Select non-matching lines instead
+ * @param context - Context state, or undefined without context
+ * @param results - Results to append to
+ * @param limit - Maximum number of selected lines
+ * @param signal - Abort signal
+ * @returns True if a further selected line was found beyond the limit
+ */
+function collectLines(
+  file: string,
+  lines: string[],
+  firstLine: number,
+  lineMatches: boolean[],
+  invert: boolean,
+  context: LineContext | undefined,
+  results: MatchLinesResult[],
+  limit: number,
+  signal: AbortSignal
+): boolean {
+  for (let i = 0; i < lines.length; i++) {
+    signal.throwIfAborted();
+
+    const line = firstLine + i; // 1-based line numbers
+
+    // Include line if: (matches and not inverted) OR (doesn't match and inverted)
+    const selected = lineMatches[i] !== invert;
+
+    if (!context) {
+      if (selected) {
+        if (results.length >= limit) {
+          return true;
+        }
+        results.push({ file, line, content: lines[i] });
+      }
+      continue;
+    }
+
+    if (selected) {
+      // Start a new block after a gap, then show the lines before and the selected line
+      const firstLine = context.pending[0]?.line ?? line;
+      const merged = context.lastLine > 0 && firstLine === context.lastLine + 1;
+
+      if (context.selected >= limit) {
+        // A new block is left for the next page whole; lines joining the last block stay with it
+        if (merged) {
+          results.push(...context.pending);
+        }
+        return true;
+      }
+
+      if (context.lastLine > 0 && !merged) {
+        results.push({ file, line: context.lastLine + 1, content: '--', kind: 'separator' });
+      }
+      results.push(...context.pending, { file, line, content: lines[i], kind: 'match' });
+      context.pending = [];
+      context.remaining = context.after;
+      context.selected++;
+    } else if (context.remaining > 0) {
+      results.push({ file, line, content: lines[i], kind: 'context' });
+      context.remaining--;
+    } else {
+      // Keep the last lines in case a selected line follows
+      if (context.before > 0) {
+        context.pending.push({ file, line, content: lines[i], kind: 'context' });
+        if (context.pending.length > context.before) {
+          context.pending.shift();
+        }
+      }
+      continue;
+    }
+
+    context.lastLine = line;
+  }
+
+  return false;
+}
+
+/**
+ * Find the line of a position in the joined lines of a range
+ * @param lines - Lines of the file
+ * @param start - Index of the first line of the range
+ * @param offset - Position in the joined lines
+ * @returns Index of the line holding the position
+ */
+function lineAtOffset(lines: string[], start: number, offset: number): number {
+  let line = start;
+  for (let lineEnd = lines[start].length; offset > lineEnd && line + 1 < lines.length; line++) {
+    lineEnd += lines[line + 1].length + 1;
+  }
+  return line;
+}
+
+/**
+ * Select multi-line results: windows of consecutive lines, or records starting at lines
+ * that match recordStart. A window is selected when a match starts on its first line,
+ * and its content runs to the line where the match ends; a record is selected as a whole.
+ * @param file - File path
+ * @param content - File content
+ * @param regex - Pattern to test
+ * @param window - Lines per window, used without recordStart
+ * @param recordStart - Regex for the first line of a record
+ * @param invert - Select non-matching windows or records instead
+ * @param limit - Maximum number of results
+ * @param matchOptions - File name, time budget and abort signal
+ * @returns Selected windows or records, and whether more were selected beyond the limit
+ */
+async function collectRanges(
+  file: string,
+  content: string,
+  regex: RegExp,
+  window: number,
+  recordStart: RegExp | undefined,
+  invert: boolean,
+  limit: number,
+  matchOptions: MatchOptions & { signal: AbortSignal }
+): Promise<{ results: MatchLinesResult[]; more: boolean }> {
+  const lines = content.split('\n');
+
+  // Windows start at every line; records at each record start line, and at the first line
+  let ranges: Array<[number, number]>;
+  if (recordStart) {
+    const starts = (await testLines(content, recordStart, matchOptions)).flatMap((isStart, i) =>
+      isStart && i > 0 ? [i] : []
+    );
+    const bounds = [0, ...starts, lines.length];
+    ranges = bounds.slice(1).map((end, r) => [bounds[r], end]);
+  } else {
+    ranges = lines.map((_, i) => [i, Math.min(i + window, lines.length)]);
+  }
+
+  const rangeMatches = await testLineRanges(content, regex, ranges, matchOptions);
+  const results: MatchLinesResult[] = [];
+
+  for (let r = 0; r < ranges.length; r++) {
+    matchOptions.signal.throwIfAborted();
+
+    const [start, rangeEnd] = ranges[r];
+    const found: RangeMatch | null = rangeMatches[r];
+
+    // A window only counts matches starting on its first line, so each match is reported once
+    let selected = found !== null && (recordStart !== undefined || found.index <= lines[start].length);
+    let end = rangeEnd;
+    if (selected && !recordStart) {
+      end = lineAtOffset(lines, start, Math.max(found!.index, found!.end - 1)) + 1;
+    }
+    if (invert) {
+      selected = !selected;
+      end = recordStart ? rangeEnd : start + 1;
+    }
+
+    if (selected) {
+      if (results.length >= limit) {
+        return { results, more: true };
+      }
+      results.push({ file, line: start + 1, end_line: end, content: lines.slice(start, end).join('\n') });
+    }
+  }
+
+  return { results, more: false };
+}
 
 /**
  * Filter lines that match (or don't match) a pattern in files matching the path pattern
- * Similar to grep/grep -v. Supports glob patterns for multiple files.
+ * Similar to grep/grep -v, with grep -C style context blocks. Supports glob patterns for multiple files.
+ * With window or record_start the pattern is tested against several lines at a time.
+ * Files larger than max_file_size are streamed instead of loaded whole, except with window or record_start.
  * @param params - Match lines parameters
- * @returns Array of matching lines with line numbers from all matching files
- * @throws Error string if operation fails
+ * @returns Matching lines with line numbers from all matching files, with scan statistics
+ * @throws Error string if operation fails or window, record_start and context are combined
  */
-export async function regexMatchLines(params: RegexMatchLinesParams): Promise<MatchLinesResult[]> {
-  const operation = async (): Promise<MatchLinesResult[]> => {
+export async function regexMatchLines(params: RegexMatchLinesParams): Promise<ToolResponse<MatchLinesResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<MatchLinesResult>> => {
     const {
       path_pattern,
       pattern,
@@ -28,94 +213,112 @@ export async function regexMatchLines(params: RegexMatchLinesParams): Promise<Ma
       literal = false,
       invert = false,
       max_lines,
+      context_before = 0,
+      context_after = 0,
+      window = 1,
+      record_start,
       exclude = [],
+      respect_ignore_files = true,
       binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
       max_results = DEFAULT_MAX_RESULTS,
+      regex_time_budget_ms,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      cursor,
     } = params;
 
-    // Find all matching files using glob
-    const globResults = await glob(normalizeGlobPath(path_pattern), {
-      ignore: exclude,
-      absolute: true,
-      onlyFiles: true,
-      followSymbolicLinks: false,
-    });
-
-    // Normalize paths back to native format (converts forward slashes to backslashes on Windows)
-    const files = globResults.map(f => path.normalize(f));
-
-    if (files.length === 0) {
-      return [];
-    }
-
-    // Parse pattern and create regex once
+    // Parse pattern, create regex once and check it for likely mistakes
     const parsedPattern = parsePattern(pattern, flags, literal);
     const regex = createRegex(parsedPattern);
+    const warnings = literal ? [] : lintPattern(parsedPattern, { perLine: true });
 
-    // Process files sequentially, stopping when max_results is reached
-    const allResults: MatchLinesResult[] = [];
-
-    for (const file of files) {
-      if (allResults.length >= max_results) {
-        break;
-      }
+    // Windows and records are tested as a whole, so they take no context
+    if (!Number.isInteger(window) || window < 1) {
+      throw new Error(`window must be a positive integer: ${window}`);
+    }
+    const multiLine = window > 1 || record_start !== undefined;
+    if (window > 1 && record_start !== undefined) {
+      throw new Error('window and record_start cannot be combined');
+    }
+    if (multiLine && (context_before > 0 || context_after > 0)) {
+      throw new Error('context_before and context_after cannot be combined with window or record_start');
+    }
 
+    let recordStart: RegExp | undefined;
+    if (record_start !== undefined) {
       try {
-        // Read file with binary check
-        const content = await readFileWithBinaryCheck(file, binary_check_buffer_size);
+        recordStart = createRegex(parsePattern(record_start));
+      } catch (error) {
+        throw new Error(`record_start: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
 
-        if (content === null) {
-          // Binary file, skip
-          continue;
-        }
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
 
-        // Create a fresh regex instance for each file (to reset lastIndex)
-        const fileRegex = new RegExp(regex.source, regex.flags);
+    if (files.length === 0) {
+      return emptyResponse(warnings);
+    }
 
-        // Split into lines
-        const lines = content.split('\n');
+    const matchOptions = (file: string) => ({ file, budgetMs: regex_time_budget_ms, signal });
 
-        // Calculate remaining space
-        const remaining = max_results - allResults.length;
-        const fileLimit = max_lines ? Math.min(max_lines, remaining) : remaining;
+    // Fresh context state for each file
+    const lineContext = (): LineContext | undefined =>
+      context_before > 0 || context_after > 0
+        ? { before: context_before, after: context_after, pending: [], remaining: 0, lastLine: 0, selected: 0 }
+        : undefined;
 
-        // Filter lines based on pattern match and invert flag
-        for (let i = 0; i < lines.length; i++) {
-          if (allResults.length >= max_results) {
-            break;
-          }
+    // Process files sequentially, stopping when max_results is reached
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        perFileLimit: max_lines ? { name: 'max_lines', value: max_lines, results: max_lines } : undefined,
+        // Only selected lines count toward the limits; a separator opens the next block
+        resultRole: ({ kind }) => (kind === 'separator' ? 'leading' : kind === 'context' ? 'attached' : 'counted'),
+        signal,
+      },
+      async (file, { content }, limit) => {
+        if (multiLine) {
+          return collectRanges(file, content, regex, window, recordStart, invert, limit, matchOptions(file));
+        }
 
-          const line = lines[i];
-          const matches = fileRegex.test(line);
+        // Test every line in an isolated worker so a runaway pattern cannot block the server
+        const lineMatches = await testLines(content, regex, matchOptions(file));
 
-          // Include line if: (matches and not inverted) OR (doesn't match and inverted)
-          if (matches !== invert) {
-            allResults.push({
-              file,
-              line: i + 1, // 1-based line numbers
-              content: line,
-            });
+        const results: MatchLinesResult[] = [];
+        const lines = content.split('\n');
+        const more = collectLines(file, lines, 1, lineMatches, invert, lineContext(), results, limit, signal);
+        return { results, more };
+      },
+      // Windows and records may span stream blocks, so large files are skipped rather than streamed
+      multiLine
+        ? undefined
+        : async (file, fileEncoding, limit) => {
+            // Stream large files block by block, keeping line numbers and context across blocks
+            const results: MatchLinesResult[] = [];
+            const context = lineContext();
 
-            if (max_lines && allResults.length >= fileLimit) {
-              break;
+            for await (const { lines, line } of readLineBlocks(file, { encoding: fileEncoding, signal })) {
+              const lineMatches = await testLines(lines.join('\n'), regex, matchOptions(file));
+              if (collectLines(file, lines, line, lineMatches, invert, context, results, limit, signal)) {
+                return { results, more: true };
+              }
             }
-          }
 
-          // Reset regex lastIndex for next test
-          fileRegex.lastIndex = 0;
-        }
-      } catch (error) {
-        // Skip this file and continue with others
-        continue;
-      }
-    }
-
-    return allResults;
+            return { results };
+          }
+    );
   };
 
   try {
     const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
-    return await withTimeout(operation(), timeout);
+    return await withTimeout(operation, timeout);
   } catch (error) {
     if (error instanceof Error) {
       throw error.message;
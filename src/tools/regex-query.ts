@@ -0,0 +1,298 @@
+import {
+  parsePattern,
+  createRegex,
+  buildLineIndex,
+  lineAndColumnAt,
+  findFiles,
+  withTimeout,
+  DEFAULT_BINARY_CHECK_SIZE,
+  DEFAULT_TIMEOUT_SECONDS,
+  DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
+} from '../utils.js';
+import { findMatches, testLines, MatchOptions, MatchRecord } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexQueryParams, QueryResult, QueryTermHits, PatternWarning, ToolResponse } from '../types.js';
+
+/**
+ * Default number of hits returned per positive term
+ */
+const DEFAULT_MAX_HITS = 10;
+
+/**
+ * A query term with its compiled regex
+ */
+interface QueryTerm {
+  term: string;
+  regex: RegExp;
+}
+
+/**
+ * Compiled terms of a query
+ */
+interface QueryTerms {
+  all: QueryTerm[];
+  any: QueryTerm[];
+  none: QueryTerm[];
+}
+
+/**
+ * Parse and compile the terms of one list, collecting their pattern warnings
+ * @param terms - Patterns as given
+ * @param flags - Flags applied to every term without its own /pattern/flags
+ * @param literal - Treat the terms as literal strings
+ * @param perLine - The terms are tested against single lines
+ * @param warnings - Warnings to append to
+ * @returns Compiled terms
+ * @throws Error naming the term if a pattern is invalid
+ */
+function compileTerms(
+  terms: string[],
+  flags: string | undefined,
+  literal: boolean,
+  perLine: boolean,
+  warnings: PatternWarning[]
+): QueryTerm[] {
+  return terms.map(term => {
+    const parsedPattern = parsePattern(term, flags, literal);
+    let regex: RegExp;
+    try {
+      regex = createRegex(parsedPattern);
+    } catch (error) {
+      throw new Error(`Term "${term}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!literal) {
+      warnings.push(...lintPattern(parsedPattern, { perLine }));
+    }
+    return { term, regex };
+  });
+}
+
+/**
+ * Convert the matches of a term to hits
+ * @param term - Query term
+ * @param matches - Matches in file order
+ * @param lineStarts - Line index of the file
+ * @param maxHits - Maximum hits to keep
+ */
+function toTermHits(term: QueryTerm, matches: MatchRecord[], lineStarts: number[], maxHits: number): QueryTermHits {
+  const termHits: QueryTermHits = {
+    term: term.term,
+    hits: matches.slice(0, maxHits).map(({ index, match }) => ({
+      ...lineAndColumnAt(lineStarts, index),
+      match: match[0],
+    })),
+  };
+  if (matches.length > maxHits) {
+    termHits.truncated = true;
+  }
+  return termHits;
+}
+
+/**
+ * Find the files matching a query at file scope
+ * @returns At most one result, with the hits of each positive term
+ */
+async function queryFile(
+  file: string,
+  content: string,
+  terms: QueryTerms,
+  maxHits: number,
+  matchOptions: MatchOptions
+): Promise<QueryResult[]> {
+  // Cheapest rejections first: a single match of a none term excludes the file
+  for (const term of terms.none) {
+    if ((await findMatches(content, term.regex, 1, matchOptions)).length > 0) {
+      return [];
+    }
+  }
+
+  const lineStarts = buildLineIndex(content);
+  const hits: QueryTermHits[] = [];
+
+  for (const term of terms.all) {
+    const matches = await findMatches(content, term.regex, maxHits + 1, matchOptions);
+    if (matches.length === 0) {
+      return [];
+    }
+    hits.push(toTermHits(term, matches, lineStarts, maxHits));
+  }
+
+  const anyHits: QueryTermHits[] = [];
+  for (const term of terms.any) {
+    const matches = await findMatches(content, term.regex, maxHits + 1, matchOptions);
+    anyHits.push(toTermHits(term, matches, lineStarts, maxHits));
+  }
+  if (terms.any.length > 0 && anyHits.every(termHits => termHits.hits.length === 0)) {
+    return [];
+  }
+
+  return [{ file, terms: [...hits, ...anyHits] }];
+}
+
+/**
+ * Find the lines of a file matching a query at line scope
+ * @param limit - Maximum number of results
+ * @returns Matching lines with the hits of each positive term on that line, and whether more lines match
+ */
+async function queryLines(
+  file: string,
+  content: string,
+  terms: QueryTerms,
+  maxHits: number,
+  limit: number,
+  matchOptions: MatchOptions,
+  signal: AbortSignal
+): Promise<{ results: QueryResult[]; more: boolean }> {
+  const lines = content.split('\n');
+  const test = (term: QueryTerm) => testLines(content, term.regex, matchOptions);
+
+  // Evaluate the query on every line
+  let selected = lines.map(() => true);
+  for (const term of terms.all) {
+    const lineMatches = await test(term);
+    selected = selected.map((value, i) => value && lineMatches[i]);
+  }
+  if (terms.any.length > 0) {
+    let anyMatches = lines.map(() => false);
+    for (const term of terms.any) {
+      const lineMatches = await test(term);
+      anyMatches = anyMatches.map((value, i) => value || lineMatches[i]);
+    }
+    selected = selected.map((value, i) => value && anyMatches[i]);
+  }
+  for (const term of terms.none) {
+    const lineMatches = await test(term);
+    selected = selected.map((value, i) => value && !lineMatches[i]);
+  }
+
+  const selectedLines = selected.flatMap((value, i) => (value ? [i] : []));
+  if (selectedLines.length === 0) {
+    return { results: [], more: false };
+  }
+
+  // Find the hits of each positive term, grouped by line. With the m flag, ^ and $ match
+  // at line boundaries as they do when lines are tested one by one.
+  const lineStarts = buildLineIndex(content);
+  const positive = [...terms.all, ...terms.any];
+  const hitsByTerm: Map<number, MatchRecord[]>[] = [];
+  for (const term of positive) {
+    const { source, flags } = term.regex;
+    const regex = flags.includes('m') ? term.regex : new RegExp(source, flags + 'm');
+    const byLine = new Map<number, MatchRecord[]>();
+    for (const record of await findMatches(content, regex, undefined, matchOptions)) {
+      const { line } = lineAndColumnAt(lineStarts, record.index);
+      const lineHits = byLine.get(line);
+      if (lineHits) {
+        lineHits.push(record);
+      } else {
+        byLine.set(line, [record]);
+      }
+    }
+    hitsByTerm.push(byLine);
+  }
+
+  const results: QueryResult[] = [];
+  for (const i of selectedLines) {
+    signal.throwIfAborted();
+
+    if (results.length >= limit) {
+      return { results, more: true };
+    }
+
+    results.push({
+      file,
+      line: i + 1,
+      content: lines[i],
+      terms: positive.map((term, t) => toTermHits(term, hitsByTerm[t].get(i + 1) ?? [], lineStarts, maxHits)),
+    });
+  }
+
+  return { results, more: false };
+}
+
+/**
+ * Find files (or lines) matching a boolean combination of patterns: every term in all,
+ * at least one term in any, and no term in none. Hits of the positive terms are returned
+ * for each match, so one call answers queries like "useEffect AND fetch( but NOT AbortController".
+ * Supports glob patterns (e.g., "*.js", "src/**.ts") for multiple files.
+ * @param params - Query parameters
+ * @returns Matching files (file scope) or lines (line scope) with the hits of each positive term
+ * @throws Error string if the query has no terms, a term is invalid or the operation fails
+ */
+export async function regexQuery(params: RegexQueryParams): Promise<ToolResponse<QueryResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<QueryResult>> => {
+    const {
+      path_pattern,
+      all = [],
+      any = [],
+      none = [],
+      scope = 'file',
+      flags,
+      literal = false,
+      max_hits = DEFAULT_MAX_HITS,
+      exclude = [],
+      respect_ignore_files = true,
+      binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
+      max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+      cursor,
+    } = params;
+
+    if (all.length + any.length + none.length === 0) {
+      throw new Error('Query needs at least one term in all, any or none');
+    }
+
+    // Compile every term once and check them for likely mistakes
+    const warnings: PatternWarning[] = [];
+    const perLine = scope === 'line';
+    const terms: QueryTerms = {
+      all: compileTerms(all, flags, literal, perLine, warnings),
+      any: compileTerms(any, flags, literal, perLine, warnings),
+      none: compileTerms(none, flags, literal, perLine, warnings),
+    };
+
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
+
+    if (files.length === 0) {
+      return emptyResponse(warnings);
+    }
+
+    // Process files sequentially, stopping when max_results is reached
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        signal,
+      },
+      async (file, { content }, limit) => {
+        // Run the regexes in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+
+        if (scope === 'line') {
+          return queryLines(file, content, terms, max_hits, limit, matchOptions, signal);
+        }
+        return { results: await queryFile(file, content, terms, max_hits, matchOptions) };
+      }
+    );
+  };
+
+  try {
+    const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
+    return await withTimeout(operation, timeout);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error.message;
+    }
+    throw String(error);
+  }
+}
@@ -1,32 +1,152 @@
-import path from 'path';
 import { promises as fs } from 'fs';
-import glob from 'fast-glob';
 import {
   parsePattern,
   createRegex,
-  readFileWithBinaryCheck,
+  readTextFile,
+  encodeText,
+  writeFileAtomic,
   getContext,
-  findAllMatches,
-  getLineAndColumn,
+  buildLineIndex,
+  lineAndColumnAt,
   processReplacement,
-  normalizeGlobPath,
+  findFiles,
   withTimeout,
   DEFAULT_BINARY_CHECK_SIZE,
-  DEFAULT_ENCODING,
   DEFAULT_TIMEOUT_SECONDS,
   DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
 } from '../utils.js';
-import { RegexReplaceParams, ReplaceResult } from '../types.js';
+import {
+  resolveStateDir,
+  createOperationId,
+  recordJournalEntry,
+  discardJournalEntry,
+  hashContent,
+  savePreview,
+  loadPreview,
+  removePreview,
+} from '../journal.js';
+import { createUnifiedDiff, diffLabel, DEFAULT_DIFF_CONTEXT } from '../diff.js';
+import { findMatches } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, skippedFile } from '../scan.js';
+import {
+  RegexReplaceParams,
+  RegexApplyPreviewParams,
+  ReplaceResult,
+  ReplaceResponse,
+  ReplaceEdit,
+  ReplacePreviewFile,
+  FileDiff,
+  ToolResponse,
+} from '../types.js';
+
+/**
+ * Progress of the writes made by one replace operation
+ */
+interface WriteState {
+  stateDir: string;
+  operationId?: string;
+  modifiedFiles: string[];
+}
+
+/**
+ * Apply non-overlapping edits to content
+ * @param content - Original content
+ * @param edits - Edits sorted by offset
+ * @returns Modified content
+ */
+function applyEdits(content: string, edits: ReplaceEdit[]): string {
+  let modifiedContent = '';
+  let position = 0;
+
+  for (const { offset, length, replacement } of edits) {
+    modifiedContent += content.substring(position, offset) + replacement;
+    position = offset + length;
+  }
+
+  return modifiedContent + content.substring(position);
+}
+
+/**
+ * Build the stable id of a replacement from its file, offset and original text
+ * @returns Id such as "3f2a9c1e-120-b7d0e4aa"
+ */
+function replaceResultId(file: string, offset: number, original: string): string {
+  return `${hashContent(file).slice(0, 8)}-${offset}-${hashContent(original).slice(0, 8)}`;
+}
+
+/**
+ * Create a predicate selecting replacement ids by include/exclude lists
+ * @returns Predicate, or null if every id is selected
+ */
+function createIdFilter(includeIds?: string[], excludeIds?: string[]): ((id: string) => boolean) | null {
+  if (!includeIds && !excludeIds) {
+    return null;
+  }
+  const include = includeIds ? new Set(includeIds) : null;
+  const exclude = new Set(excludeIds ?? []);
+  return (id: string) => (!include || include.has(id)) && !exclude.has(id);
+}
+
+/**
+ * Journal a file's pre-image, then atomically write its new content.
+ * If the write fails, the journal entry is dropped again so the operation stays undoable.
+ * @param state - Write progress of the current operation
+ * @param file - File to write
+ * @param encoded - New file content
+ * @param signal - Abort signal; no write is started once it has fired
+ */
+async function writeReplacement(state: WriteState, file: string, encoded: Buffer, signal: AbortSignal): Promise<void> {
+  // Never start a write after the timeout has fired
+  signal.throwIfAborted();
+
+  // Journal the pre-image before touching the file so it can be undone
+  const preImage = await fs.readFile(file);
+  state.operationId ??= createOperationId();
+  await recordJournalEntry(state.stateDir, {
+    operation_id: state.operationId,
+    file,
+    timestamp: new Date().toISOString(),
+    pre_hash: hashContent(preImage),
+    post_hash: hashContent(encoded),
+    content: preImage.toString('base64'),
+  });
+
+  try {
+    await writeFileAtomic(file, encoded);
+  } catch (error) {
+    await discardJournalEntry(state.stateDir, state.operationId, file);
+    throw error;
+  }
+  state.modifiedFiles.push(file);
+}
+
+/**
+ * Convert a failure into the error string thrown by the replace tools,
+ * listing files already written if the operation stopped midway
+ */
+function replaceError(error: unknown, state: WriteState): string {
+  const message = error instanceof Error ? error.message : String(error);
+  if (state.modifiedFiles.length > 0) {
+    return `${message}. Files already modified (operation ${state.operationId}): ${state.modifiedFiles.join(', ')}`;
+  }
+  return message;
+}
 
 /**
  * Replace pattern matches in files matching the path pattern.
  * Supports glob patterns (e.g., "*.js", "src/**.ts") for multiple files.
+ * A dry run stores the exact edits and returns a preview_token for regexApplyPreview.
+ * include_ids/exclude_ids restrict the run to matches with the given result ids.
  * @param params - Replace parameters
- * @returns Array of replacement results from all matching files
- * @throws Error string if operation fails
+ * @returns Replacement results from all matching files with scan statistics, plus per-file unified diffs when output is 'diff'
+ * @throws Error string if operation fails; lists files already written if it stopped midway
  */
-export async function regexReplace(params: RegexReplaceParams): Promise<ReplaceResult[]> {
-  const operation = async (): Promise<ReplaceResult[]> => {
+export async function regexReplace(params: RegexReplaceParams): Promise<ReplaceResponse> {
+  const state: WriteState = { stateDir: resolveStateDir(params.state_dir), modifiedFiles: [] };
+
+  const operation = async (signal: AbortSignal): Promise<ReplaceResponse> => {
     const {
       path_pattern,
       pattern,
@@ -38,131 +158,248 @@ export async function regexReplace(params: RegexReplaceParams): Promise<ReplaceR
       dry_run = false,
       max_replacements,
       exclude = [],
+      respect_ignore_files = true,
       binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
       max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+      output = 'matches',
+      diff_context = DEFAULT_DIFF_CONTEXT,
+      include_ids,
+      exclude_ids,
     } = params;
 
-    // Find all matching files using glob
-    const globResults = await glob(normalizeGlobPath(path_pattern), {
-      ignore: exclude,
-      absolute: true,
-      onlyFiles: true,
-      followSymbolicLinks: false,
-    });
+    const isSelected = createIdFilter(include_ids, exclude_ids);
+    const diffs: FileDiff[] = [];
+    const previewFiles: ReplacePreviewFile[] = [];
 
-    // Normalize paths back to native format (converts forward slashes to backslashes on Windows)
-    const files = globResults.map(f => path.normalize(f));
-
-    if (files.length === 0) {
-      return [];
-    }
+    const buildResponse = async (scanned: ToolResponse<ReplaceResult>): Promise<ReplaceResponse> => {
+      const response: ReplaceResponse = { ...scanned };
+      if (output === 'diff') {
+        response.diffs = diffs;
+      }
+      if (dry_run) {
+        // The preview only enables regex_apply_preview: an unwritable state directory must not fail the dry run
+        try {
+          response.preview_token = await savePreview(state.stateDir, previewFiles);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          response.warnings = [
+            ...(response.warnings ?? []),
+            { code: 'preview_not_saved', message: `Preview could not be saved, no preview_token returned: ${reason}` },
+          ];
+        }
+      }
+      if (state.modifiedFiles.length > 0) {
+        response.operation_id = state.operationId;
+      }
+      return response;
+    };
 
-    // Parse pattern and create regex once
+    // Parse pattern, create regex once and check it for likely mistakes
     const parsedPattern = parsePattern(pattern, flags, literal);
     const regex = createRegex(parsedPattern);
+    const warnings = literal ? [] : lintPattern(parsedPattern);
 
-    // Process files sequentially, stopping when max_results is reached
-    const allResults: ReplaceResult[] = [];
-
-    for (const file of files) {
-      if (allResults.length >= max_results) {
-        break;
-      }
-
-      try {
-        // Read file with binary check
-        const content = await readFileWithBinaryCheck(file, binary_check_buffer_size);
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
 
-        if (content === null) {
-          // Binary file, skip
-          continue;
-        }
-
-        // Create a fresh regex instance for each file (to reset lastIndex)
-        const fileRegex = new RegExp(regex.source, regex.flags);
+    if (files.length === 0) {
+      return buildResponse(emptyResponse(warnings));
+    }
 
-        // Calculate remaining space for this file
-        const remaining = max_results - allResults.length;
-        const fileLimit = max_replacements ? Math.min(max_replacements, remaining) : remaining;
+    // Process files sequentially, stopping when max_results is reached.
+    // Files that are not valid UTF-8 are skipped: rewriting them would corrupt their bytes.
+    const scanned = await scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        perFileLimit: max_replacements
+          ? { name: 'max_replacements', value: max_replacements, results: max_replacements }
+          : undefined,
+        strictDecoding: true,
+        // Files are written as they are processed, so none may be processed past an early stop
+        processConcurrency: 1,
+        signal,
+      },
+      async (file, { content, encoding: fileEncoding, bom, eol }, limit) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
 
-        // Find matches up to the limit
-        const matches = findAllMatches(content, fileRegex, fileLimit);
+        // Find one match beyond the limit; with an id selection, only selected matches count
+        const found = isSelected
+          ? (await findMatches(content, regex, undefined, matchOptions))
+              .filter(({ index, match }) => isSelected(replaceResultId(file, index, match[0])))
+              .slice(0, limit + 1)
+          : await findMatches(content, regex, limit + 1, matchOptions);
+        const matches = found.slice(0, limit);
 
         if (matches.length === 0) {
-          continue;
+          return { results: [] };
         }
 
-        // Split content into lines for context (before replacement)
+        // Split content into lines for context (before replacement), and index line starts for positions
         const originalLines = content.split('\n');
+        const lineStarts = buildLineIndex(content);
 
-        // Build the results array
+        // Build the results and the edits to apply
         const results: ReplaceResult[] = [];
+        const edits: ReplaceEdit[] = [];
 
-        // Perform replacements (tracking offset for modified content)
-        let modifiedContent = content;
-        let offset = 0;
-
-        for (let i = 0; i < matches.length; i++) {
-          if (allResults.length >= max_results) {
-            break;
-          }
-
-          const { index, match } = matches[i];
-          const adjustedIndex = index + offset;
-
-          const { line, column } = getLineAndColumn(content, index);
+        for (const { index, match } of matches) {
+          const { line, column } = lineAndColumnAt(lineStarts, index);
+          const end = lineAndColumnAt(lineStarts, index + match[0].length);
           const lineIndex = line - 1;
 
           const context = getContext(originalLines, lineIndex, context_before, context_after);
 
           // Process replacement string with capture groups (or use literally if literal mode)
-          const processedReplacement = literal ? replacement : processReplacement(replacement, match);
+          let processedReplacement = literal ? replacement : processReplacement(replacement, match);
 
-          // Track the result
-          const result: ReplaceResult = {
+          // Keep the file's line ending convention for newlines introduced by the replacement
+          if (eol === '\r\n') {
+            processedReplacement = processedReplacement.replace(/\r?\n/g, '\r\n');
+          }
+
+          results.push({
+            id: replaceResultId(file, index, match[0]),
             file,
             line,
             column,
+            end_line: end.line,
+            end_column: end.column,
             original: match[0],
             replacement: processedReplacement,
             groups: Array.from(match),
             context_before: context.before,
             context_after: context.after,
-          };
+          });
+          edits.push({ offset: index, length: match[0].length, replacement: processedReplacement });
+        }
+
+        const modifiedContent = applyEdits(content, edits);
+
+        if (dry_run) {
+          // Pin the file content the preview was computed from
+          previewFiles.push({
+            file,
+            encoding: fileEncoding,
+            hash: hashContent(encodeText(content, bom, fileEncoding)),
+            edits,
+            results,
+          });
+        } else {
+          await writeReplacement(state, file, encodeText(modifiedContent, bom, fileEncoding), signal);
+        }
+
+        if (output === 'diff') {
+          diffs.push({ file, diff: createUnifiedDiff(diffLabel(file), content, edits, diff_context) });
+        }
+
+        return { results, more: found.length > limit };
+      }
+    );
+
+    return buildResponse(scanned);
+  };
+
+  try {
+    const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
+    return await withTimeout(operation, timeout);
+  } catch (error) {
+    throw replaceError(error, state);
+  }
+}
+
+/**
+ * Apply exactly the edits of a regex_replace dry run identified by its preview token,
+ * optionally narrowed to a subset of result ids. Each file is only written if its content
+ * still matches what the preview saw; changed or unreadable files are reported in skipped
+ * and left untouched.
+ * A preview token can be applied once.
+ * @param params - Apply parameters
+ * @returns Applied replacement results, skipped files and the journal operation id
+ * @throws Error string if the preview is unknown or the operation fails
+ */
+export async function regexApplyPreview(params: RegexApplyPreviewParams): Promise<ReplaceResponse> {
+  const state: WriteState = { stateDir: resolveStateDir(params.state_dir), modifiedFiles: [] };
+
+  const operation = async (signal: AbortSignal): Promise<ReplaceResponse> => {
+    const { preview_token, output = 'matches', diff_context = DEFAULT_DIFF_CONTEXT, include_ids, exclude_ids } = params;
+    const isSelected = createIdFilter(include_ids, exclude_ids);
+
+    const preview = await loadPreview(state.stateDir, preview_token);
+
+    // A preview is single-use, even if some of its files can no longer be applied
+    await removePreview(state.stateDir, preview_token);
+
+    const response: ReplaceResponse = emptyResponse();
+    const diffs: FileDiff[] = [];
+
+    for (const previewFile of preview.files) {
+      signal.throwIfAborted();
 
-          results.push(result);
-          allResults.push(result);
+      const { file, encoding, hash } = previewFile;
+      let { edits, results } = previewFile;
 
-          // Apply replacement to content
-          modifiedContent =
-            modifiedContent.substring(0, adjustedIndex) +
-            processedReplacement +
-            modifiedContent.substring(adjustedIndex + match[0].length);
+      // Narrow down to the selected replacements (edits and results are parallel arrays)
+      if (isSelected) {
+        const selected = results.map(r => isSelected(r.id));
+        edits = edits.filter((_, i) => selected[i]);
+        results = results.filter((_, i) => selected[i]);
+        if (edits.length === 0) {
+          continue;
+        }
+      }
 
-          // Adjust offset for next replacement
-          offset += processedReplacement.length - match[0].length;
+      try {
+        // Binary detection is off: the preview already decided this file is text
+        const current = await readTextFile(file, 0, false, encoding);
+
+        if (!current || hashContent(encodeText(current.content, current.bom, encoding)) !== hash) {
+          response.skipped.push({ file, reason: 'changed', message: 'File changed since the preview' });
+          continue;
         }
 
-        // Write modified content to file if not dry run
-        if (!dry_run && results.length > 0) {
-          await fs.writeFile(file, modifiedContent, DEFAULT_ENCODING);
+        response.files_scanned++;
+
+        const modifiedContent = applyEdits(current.content, edits);
+        await writeReplacement(state, file, encodeText(modifiedContent, current.bom, encoding), signal);
+
+        // Only report the change once it is on disk
+        if (output === 'diff') {
+          diffs.push({ file, diff: createUnifiedDiff(diffLabel(file), current.content, edits, diff_context) });
         }
+        response.files_matched++;
+        response.matches.push(...results);
+        (response.encodings ??= {})[file] = encoding;
       } catch (error) {
-        // Skip this file and continue with others
-        continue;
+        // Stop on timeout, otherwise report this file and continue with others
+        if (signal.aborted) {
+          throw error;
+        }
+        response.skipped.push(skippedFile(file, error));
       }
     }
 
-    return allResults;
+    if (output === 'diff') {
+      response.diffs = diffs;
+    }
+    if (state.modifiedFiles.length > 0) {
+      response.operation_id = state.operationId;
+    }
+    return response;
   };
 
   try {
     const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
-    return await withTimeout(operation(), timeout);
+    return await withTimeout(operation, timeout);
   } catch (error) {
-    if (error instanceof Error) {
-      throw error.message;
-    }
-    throw String(error);
+    throw replaceError(error, state);
   }
 }
@@ -1,29 +1,98 @@
-import path from 'path';
-import glob from 'fast-glob';
 import {
   parsePattern,
   createRegex,
-  readFileWithBinaryCheck,
   getContext,
-  findAllMatches,
-  getLineAndColumn,
-  normalizeGlobPath,
+  buildLineIndex,
+  lineAndColumnAt,
+  findFiles,
   withTimeout,
   DEFAULT_BINARY_CHECK_SIZE,
   DEFAULT_TIMEOUT_SECONDS,
   DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
 } from '../utils.js';
-import { RegexSearchParams, SearchResult } from '../types.js';
+import { findMatches, MatchRecord } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { streamMatches } from '../stream.js';
+import { scanFiles, emptyResponse, queryKey, StreamProcessor } from '../scan.js';
+import { RegexSearchParams, SearchResult, NearHit, ToolResponse } from '../types.js';
+
+/**
+ * Default maximum line distance of a near hit in a proximity search
+ */
+const DEFAULT_NEAR_LINES = 5;
+
+/**
+ * A near hit with its character offset
+ */
+type IndexedNearHit = Omit<NearHit, 'distance'> & { index: number };
+
+/**
+ * Find the hit nearest to a match: fewest lines away, then fewest characters
+ * @param match - Offset and line of the match
+ * @param hits - Near hits in file order
+ * @param withinLines - Maximum line distance
+ * @param direction - Whether the hit must start before or after the match, or either
+ * @returns Nearest hit with its line distance, or null if none is close enough
+ */
+function findNearest(
+  match: { index: number; line: number },
+  hits: IndexedNearHit[],
+  withinLines: number,
+  direction: 'before' | 'after' | 'either'
+): NearHit | null {
+  // Binary search for the first hit that can be in range
+  const firstLine = direction === 'after' ? match.line : match.line - withinLines;
+  const lastLine = direction === 'before' ? match.line : match.line + withinLines;
+  let low = 0;
+  let high = hits.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (hits[mid].line < firstLine) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  let nearest: IndexedNearHit | null = null;
+  let best = { lines: Infinity, chars: Infinity };
+  for (let i = low; i < hits.length && hits[i].line <= lastLine; i++) {
+    const hit = hits[i];
+    if (
+      hit.index === match.index ||
+      (direction === 'before' && hit.index > match.index) ||
+      (direction === 'after' && hit.index < match.index)
+    ) {
+      continue;
+    }
+    const lines = Math.abs(hit.line - match.line);
+    const chars = Math.abs(hit.index - match.index);
+    if (lines < best.lines || (lines === best.lines && chars < best.chars)) {
+      nearest = hit;
+      best = { lines, chars };
+    }
+  }
+
+  if (!nearest) {
+    return null;
+  }
+  const { index: _index, ...hit } = nearest;
+  return { ...hit, distance: best.lines };
+}
 
 /**
  * Search for pattern matches in files matching the path pattern.
  * Supports glob patterns (e.g., "*.js", "src/**.ts") for multiple files.
+ * Files larger than max_file_size are streamed in overlapping windows instead of loaded whole.
+ * With near_pattern, only matches with a near hit within near_lines are returned, each paired
+ * with its nearest hit (proximity search); large files are then skipped rather than streamed.
  * @param params - Search parameters
- * @returns Array of search results from all matching files
+ * @returns Search results from all matching files, with scan statistics, skipped files and truncation
  * @throws Error string if operation fails
  */
-export async function regexSearch(params: RegexSearchParams): Promise<SearchResult[]> {
-  const operation = async (): Promise<SearchResult[]> => {
+export async function regexSearch(params: RegexSearchParams): Promise<ToolResponse<SearchResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<SearchResult>> => {
     const {
       path_pattern,
       pattern,
@@ -33,96 +102,160 @@ export async function regexSearch(params: RegexSearchParams): Promise<SearchResu
       context_after = 0,
       max_matches,
       exclude = [],
+      respect_ignore_files = true,
       binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
       max_results = DEFAULT_MAX_RESULTS,
+      regex_time_budget_ms,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      stream_overlap,
+      near_pattern,
+      near_lines = DEFAULT_NEAR_LINES,
+      near_direction = 'either',
+      cursor,
     } = params;
 
-    // Find all matching files using glob
-    const globResults = await glob(normalizeGlobPath(path_pattern), {
-      ignore: exclude,
-      absolute: true,
-      onlyFiles: true,
-      followSymbolicLinks: false,
-    });
-
-    // Normalize paths back to native format (converts forward slashes to backslashes on Windows)
-    const files = globResults.map(f => path.normalize(f));
-
-    if (files.length === 0) {
-      return [];
-    }
-
-    // Parse pattern and create regex once
+    // Parse pattern, create regex once and check it for likely mistakes
     const parsedPattern = parsePattern(pattern, flags, literal);
     const regex = createRegex(parsedPattern);
+    const warnings = literal ? [] : lintPattern(parsedPattern);
 
-    // Process files sequentially, stopping when max_results is reached
-    const allResults: SearchResult[] = [];
-
-    for (const file of files) {
-      if (allResults.length >= max_results) {
-        break;
+    // The near pattern of a proximity search takes the same flags and literal mode
+    let nearRegex: RegExp | undefined;
+    if (near_pattern !== undefined) {
+      const parsedNear = parsePattern(near_pattern, flags, literal);
+      nearRegex = createRegex(parsedNear);
+      if (!literal) {
+        warnings.push(...lintPattern(parsedNear));
       }
+    }
 
-      try {
-        // Read file with binary check
-        const content = await readFileWithBinaryCheck(file, binary_check_buffer_size);
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
 
-        if (content === null) {
-          // Binary file, skip
-          continue;
-        }
+    if (files.length === 0) {
+      return emptyResponse(warnings);
+    }
+
+    // Large files are streamed, except in a proximity search, which needs every match of the file
+    const streamFile: StreamProcessor<SearchResult> | undefined = nearRegex
+      ? undefined
+      : async (file, fileEncoding, limit) => {
+          // Stream large files, finding one match beyond the limit
+          const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+          const matches = await streamMatches(file, regex, limit + 1, {
+            overlap: stream_overlap,
+            contextBefore: context_before,
+            contextAfter: context_after,
+            matchOptions,
+            encoding: fileEncoding,
+            signal,
+          });
+
+          const results: SearchResult[] = matches.slice(0, limit).map(({ match, ...position }) => ({
+            file,
+            line: position.line,
+            column: position.column,
+            end_line: position.end_line,
+            end_column: position.end_column,
+            match: match[0],
+            groups: Array.from(match),
+            context_before: position.context_before,
+            context_after: position.context_after,
+          }));
 
-        // Create a fresh regex instance for each file (to reset lastIndex)
-        const fileRegex = new RegExp(regex.source, regex.flags);
+          return { results, more: matches.length > limit };
+        };
 
-        // Calculate remaining space for this file
-        const remaining = max_results - allResults.length;
-        const fileLimit = max_matches ? Math.min(max_matches, remaining) : remaining;
+    // Process files sequentially, stopping when max_results is reached
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        perFileLimit: max_matches ? { name: 'max_matches', value: max_matches, results: max_matches } : undefined,
+        signal,
+      },
+      async (file, { content }, limit) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
 
-        // Find matches up to the limit
-        const matches = findAllMatches(content, fileRegex, fileLimit);
+        // Find one match beyond the limit to tell whether results were cut short.
+        // A proximity search needs every match, as only those with a near hit count.
+        const matches = await findMatches(content, regex, nearRegex ? undefined : limit + 1, matchOptions);
 
         if (matches.length === 0) {
-          continue;
+          return { results: [] };
         }
 
-        // Split content into lines for context
+        // Split content into lines for context, and index line starts for positions
         const lines = content.split('\n');
+        const lineStarts = buildLineIndex(content);
 
-        // Process each match
-        for (const { index, match } of matches) {
-          if (allResults.length >= max_results) {
-            break;
-          }
-
-          const { line, column } = getLineAndColumn(content, index);
+        const toResult = ({ index, match }: MatchRecord): SearchResult => {
+          const { line, column } = lineAndColumnAt(lineStarts, index);
+          const end = lineAndColumnAt(lineStarts, index + match[0].length);
           const lineIndex = line - 1; // Convert to 0-based for array access
 
           const context = getContext(lines, lineIndex, context_before, context_after);
 
-          allResults.push({
+          return {
             file,
             line,
             column,
+            end_line: end.line,
+            end_column: end.column,
             match: match[0],
             groups: Array.from(match),
             context_before: context.before,
             context_after: context.after,
-          });
+          };
+        };
+
+        if (!nearRegex) {
+          return { results: matches.slice(0, limit).map(toResult), more: matches.length > limit };
+        }
+
+        // Pair each match with its nearest near hit, dropping matches without one
+        const nearHits = (await findMatches(content, nearRegex, undefined, matchOptions)).map(({ index, match }) => {
+          const start = lineAndColumnAt(lineStarts, index);
+          const end = lineAndColumnAt(lineStarts, index + match[0].length);
+          return { index, ...start, end_line: end.line, end_column: end.column, match: match[0] };
+        });
+
+        const results: SearchResult[] = [];
+        for (const record of matches) {
+          const { line } = lineAndColumnAt(lineStarts, record.index);
+          const near = findNearest({ index: record.index, line }, nearHits, near_lines, near_direction);
+          if (!near) {
+            continue;
+          }
+          if (results.length >= limit) {
+            return { results, more: true };
+          }
+
+          const result = toResult(record);
+          result.near = near;
+          result.span = {
+            start_line: Math.min(result.line, near.line),
+            end_line: Math.max(result.end_line, near.end_line),
+          };
+          results.push(result);
         }
-      } catch (error) {
-        // Skip this file and continue with others
-        continue;
-      }
-    }
 
-    return allResults;
+        return { results };
+      },
+      streamFile
+    );
   };
 
   try {
     const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
-    return await withTimeout(operation(), timeout);
+    return await withTimeout(operation, timeout);
   } catch (error) {
     if (error instanceof Error) {
       throw error.message;
@@ -0,0 +1,258 @@
+import {
+  parsePattern,
+  createRegex,
+  buildLineIndex,
+  lineAndColumnAt,
+  captureGroupNames,
+  captureGroupIndex,
+  findFiles,
+  withTimeout,
+  DEFAULT_BINARY_CHECK_SIZE,
+  DEFAULT_TIMEOUT_SECONDS,
+  DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
+} from '../utils.js';
+import { findMatches } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexSectionsParams, Section, SectionsResult, ToolResponse } from '../types.js';
+
+/**
+ * Default heading pattern: Markdown ATX headings, with optional closing #s
+ */
+const DEFAULT_HEADING_PATTERN = '^(?<level>#{1,6})[ \\t]+(?<title>.+?)(?:[ \\t]+#+)?[ \\t]*$';
+
+/**
+ * Separator between the titles of a section path
+ */
+const PATH_SEPARATOR = ' > ';
+
+/**
+ * A heading found in a file
+ */
+interface Heading {
+  title: string;
+  level: number;
+  line: number; // First line of the heading
+  end_line: number; // Last line of the heading, for headings spanning lines
+}
+
+/**
+ * Mark the lines inside fenced code blocks (``` or ~~~), fences included
+ * @param lines - Lines of the file
+ * @returns Whether each line is part of a fenced block
+ */
+function fencedLines(lines: string[]): boolean[] {
+  let fence: string | undefined;
+
+  return lines.map(line => {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+    if (fence) {
+      // A fence closes with at least as many of the same character
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+      return true;
+    }
+    fence = marker;
+    return marker !== undefined;
+  });
+}
+
+/**
+ * Read a heading level from its capture: digits give the level (e.g. "2" in <h2>),
+ * anything else counts by its length (e.g. "##")
+ * @returns Level, or undefined if the group did not capture anything
+ */
+function headingLevel(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value.length;
+}
+
+/**
+ * Nest headings into a section tree: each section runs to the next heading of the same or a higher level
+ * @param lines - Lines of the file
+ * @param headings - Headings in file order
+ * @param lastLine - Last line of the file
+ * @returns Top-level sections
+ */
+function buildSections(lines: string[], headings: Heading[], lastLine: number): Section[] {
+  const roots: Section[] = [];
+  const stack: Section[] = [];
+
+  headings.forEach((heading, i) => {
+    const bodyEnd = i + 1 < headings.length ? headings[i + 1].line - 1 : lastLine;
+
+    // Sections closed by this heading end just before it; those never closed run to the end
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop()!.line_end = heading.line - 1;
+    }
+    const parent = stack[stack.length - 1];
+
+    const section: Section = {
+      title: heading.title,
+      level: heading.level,
+      path: parent ? parent.path + PATH_SEPARATOR + heading.title : heading.title,
+      line_start: heading.line,
+      line_end: lastLine,
+      body: lines.slice(heading.end_line, bodyEnd).join('\n'),
+      children: [],
+    };
+    (parent ? parent.children : roots).push(section);
+    stack.push(section);
+  });
+
+  return roots;
+}
+
+/**
+ * Find the sections at a title path. The first title may be at any level; each further
+ * title must be a direct subsection of the previous one.
+ * @param sections - Sections to search, with their subsections
+ * @param titles - Titles of the path
+ * @returns Sections at the end of the path
+ */
+function findSections(sections: Section[], titles: string[]): Section[] {
+  const [title, ...rest] = titles;
+  const descend = (section: Section): Section[] =>
+    rest.length === 0 ? [section] : findChildren(section.children, rest);
+
+  return sections.flatMap(section => [
+    ...(section.title === title ? descend(section) : []),
+    ...findSections(section.children, titles),
+  ]);
+}
+
+/**
+ * Follow a title path through direct subsections only
+ */
+function findChildren(sections: Section[], titles: string[]): Section[] {
+  const [title, ...rest] = titles;
+  return sections
+    .filter(section => section.title === title)
+    .flatMap(section => (rest.length === 0 ? [section] : findChildren(section.children, rest)));
+}
+
+/**
+ * Split documents into a tree of sections by their headings, with the title, level, line
+ * range and body of each. A single section can be fetched by its title path, so a large
+ * document can be read or rewritten one section at a time.
+ * Supports glob patterns (e.g., "*.md", "docs/**.md") for multiple files.
+ * @param params - Sections parameters
+ * @returns Section tree of each file with headings, or the sections at the requested path, with scan statistics
+ * @throws Error string if the pattern lacks the level or title group or the operation fails
+ */
+export async function regexSections(params: RegexSectionsParams): Promise<ToolResponse<SectionsResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<SectionsResult>> => {
+    const {
+      path_pattern,
+      pattern = DEFAULT_HEADING_PATTERN,
+      flags = params.pattern === undefined ? 'm' : undefined,
+      level_group,
+      title_group,
+      section,
+      skip_fences = true,
+      exclude = [],
+      respect_ignore_files = true,
+      binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
+      max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+      cursor,
+    } = params;
+
+    // Parse pattern, create regex once and check it for likely mistakes
+    const parsedPattern = parsePattern(pattern, flags);
+    const regex = createRegex(parsedPattern);
+    const warnings = lintPattern(parsedPattern);
+
+    // Resolve the level and title groups, by name when the pattern names them
+    const names = captureGroupNames(parsedPattern.pattern);
+    const levelGroup = level_group ?? (names.includes('level') ? 'level' : 1);
+    const titleGroup = title_group ?? (names.includes('title') ? 'title' : 2);
+    const levelIndex = captureGroupIndex(parsedPattern.pattern, levelGroup);
+    const titleIndex = captureGroupIndex(parsedPattern.pattern, titleGroup);
+
+    const titles = section?.split(PATH_SEPARATOR).map(title => title.trim());
+
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
+
+    if (files.length === 0) {
+      return emptyResponse(warnings);
+    }
+
+    // Process files sequentially, stopping when max_results is reached
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        signal,
+      },
+      async (file, { content }) => {
+        // Run the regex in an isolated worker so a runaway pattern cannot block the server
+        const matchOptions = { file, budgetMs: regex_time_budget_ms, signal };
+        const matches = await findMatches(content, regex, undefined, matchOptions);
+
+        const lines = content.split('\n');
+        const lastLine = content.endsWith('\n') ? lines.length - 1 : lines.length;
+        const lineStarts = buildLineIndex(content);
+        const fenced = skip_fences ? fencedLines(lines) : undefined;
+
+        const headings: Heading[] = [];
+        for (const { index, match } of matches) {
+          const { line } = lineAndColumnAt(lineStarts, index);
+          const level = headingLevel(match[levelIndex]);
+          if (fenced?.[line - 1] || level === undefined) {
+            continue;
+          }
+          headings.push({
+            title: (match[titleIndex] ?? '').trim(),
+            level,
+            line,
+            end_line: lineAndColumnAt(lineStarts, index + Math.max(match[0].length - 1, 0)).line,
+          });
+        }
+
+        if (headings.length === 0) {
+          return { results: [] };
+        }
+
+        const sections = buildSections(lines, headings, lastLine);
+
+        if (titles) {
+          const matched = findSections(sections, titles).map(found => ({
+            ...found,
+            content: lines.slice(found.line_start - 1, found.line_end).join('\n'),
+          }));
+          return { results: matched.length > 0 ? [{ file, sections: matched }] : [] };
+        }
+
+        const result: SectionsResult = { file, sections };
+        const preamble = lines.slice(0, headings[0].line - 1).join('\n');
+        if (preamble.trim() !== '') {
+          result.preamble = preamble;
+        }
+        return { results: [result] };
+      }
+    );
+  };
+
+  try {
+    const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
+    return await withTimeout(operation, timeout);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error.message;
+    }
+    throw String(error);
+  }
+}
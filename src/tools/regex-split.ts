@@ -1,134 +1,163 @@
-import path from 'path';
-import glob from 'fast-glob';
 import {
   parsePattern,
+  buildLineIndex,
+  lineAndColumnAt,
   createRegex,
-  readFileWithBinaryCheck,
-  normalizeGlobPath,
+  captureGroupNames,
+  findFiles,
   withTimeout,
   DEFAULT_BINARY_CHECK_SIZE,
   DEFAULT_TIMEOUT_SECONDS,
   DEFAULT_MAX_RESULTS,
+  DEFAULT_MAX_FILE_SIZE,
 } from '../utils.js';
-import { RegexSplitParams, SplitResult } from '../types.js';
+import { findMatches, MatchRecord } from '../matcher.js';
+import { lintPattern } from '../lint.js';
+import { scanFiles, emptyResponse, queryKey } from '../scan.js';
+import { RegexSplitParams, SplitResult, ToolResponse } from '../types.js';
+
+/**
+ * Bounds of a segment in the file content, with the delimiter it belongs to
+ */
+interface SegmentBounds {
+  start: number;
+  end: number;
+  delimiter?: MatchRecord;
+}
+
+/**
+ * Cut content into segments at the delimiter matches. Like String.prototype.split, empty
+ * matches at the very start or end of the content do not split it.
+ * @param content - File content
+ * @param matches - Delimiter matches in content order
+ * @param keepDelimiter - Keep each delimiter in the next or the previous segment, or drop it
+ * @returns Segment bounds, each with the delimiter before it (after it when kept in the previous segment)
+ */
+function segmentBounds(
+  content: string,
+  matches: MatchRecord[],
+  keepDelimiter: 'next' | 'previous' | undefined
+): SegmentBounds[] {
+  const segments: SegmentBounds[] = [];
+  let start = 0;
+  let previous: MatchRecord | undefined;
+
+  for (const record of matches) {
+    const { index, match } = record;
+    const end = index + match[0].length;
+    if (index === end && (index === 0 || index === content.length)) {
+      continue;
+    }
+
+    if (keepDelimiter === 'previous') {
+      segments.push({ start, end, delimiter: record });
+      start = end;
+    } else {
+      segments.push({ start, end: index, delimiter: previous });
+      start = keepDelimiter === 'next' ? index : end;
+      previous = record;
+    }
+  }
+
+  segments.push({ start, end: content.length, delimiter: previous });
+  return segments;
+}
 
 /**
  * Split file content by regex delimiter pattern in files matching the path pattern
- * Supports glob patterns for multiple files.
+ * Supports glob patterns for multiple files. Delimiters can be kept with the next or previous
+ * segment, and their capture groups (e.g. the heading text) are returned with the segment.
  * @param params - Split parameters
- * @returns Array of segments with line ranges from all matching files
+ * @returns Segments with line ranges from all matching files, with scan statistics
  * @throws Error string if operation fails
  */
-export async function regexSplit(params: RegexSplitParams): Promise<SplitResult[]> {
-  const operation = async (): Promise<SplitResult[]> => {
+export async function regexSplit(params: RegexSplitParams): Promise<ToolResponse<SplitResult>> {
+  const operation = async (signal: AbortSignal): Promise<ToolResponse<SplitResult>> => {
     const {
       path_pattern,
       pattern,
       flags,
       literal = false,
       max_splits,
+      keep_delimiter,
+      drop_empty = false,
       exclude = [],
+      respect_ignore_files = true,
       binary_check_buffer_size = DEFAULT_BINARY_CHECK_SIZE,
       max_results = DEFAULT_MAX_RESULTS,
+      max_file_size = DEFAULT_MAX_FILE_SIZE,
+      encoding,
+      regex_time_budget_ms,
+      cursor,
     } = params;
 
-    // Find all matching files using glob
-    const globResults = await glob(normalizeGlobPath(path_pattern), {
-      ignore: exclude,
-      absolute: true,
-      onlyFiles: true,
-      followSymbolicLinks: false,
-    });
+    // Parse pattern, create regex once and check it for likely mistakes
+    const parsedPattern = parsePattern(pattern, flags, literal);
+    const regex = createRegex(parsedPattern);
+    const warnings = literal ? [] : lintPattern(parsedPattern);
+    const names = captureGroupNames(parsedPattern.pattern);
 
-    // Normalize paths back to native format (converts forward slashes to backslashes on Windows)
-    const files = globResults.map(f => path.normalize(f));
+    // Find all matching files, honoring ignore files unless disabled
+    const files = await findFiles(path_pattern, exclude, respect_ignore_files, signal);
 
     if (files.length === 0) {
-      return [];
+      return emptyResponse(warnings);
     }
 
-    // Parse pattern and create regex once
-    const parsedPattern = parsePattern(pattern, flags, literal);
-    const regex = createRegex(parsedPattern);
-
     // Process files sequentially, stopping when max_results is reached
-    const allResults: SplitResult[] = [];
-
-    for (const file of files) {
-      if (allResults.length >= max_results) {
-        break;
-      }
-
-      try {
-        // Read file with binary check
-        const content = await readFileWithBinaryCheck(file, binary_check_buffer_size);
-
-        if (content === null) {
-          // Binary file, skip
-          continue;
-        }
-
-        // Create a fresh regex instance for each file
-        const fileRegex = new RegExp(regex.source, regex.flags);
-
-        // Split content by pattern, keeping track of positions
-        const segments = content.split(fileRegex);
-
-        // Calculate how many segments we can add
-        const remaining = max_results - allResults.length;
-        const segmentLimit = max_splits ? Math.min(max_splits + 1, remaining) : remaining;
-        const limitedSegments = segments.slice(0, segmentLimit);
-
-        // Calculate line ranges for each segment by tracking character position
-        let charPosition = 0;
-
-        for (let i = 0; i < limitedSegments.length; i++) {
-          if (allResults.length >= max_results) {
-            break;
-          }
-
-          const segment = limitedSegments[i];
-
-          // Find line numbers by counting newlines up to this position
-          const textBefore = content.substring(0, charPosition);
-          const lineStart = textBefore.split('\n').length;
-
-          const textUpToEnd = content.substring(0, charPosition + segment.length);
-          const lineEnd = textUpToEnd.split('\n').length;
-
-          allResults.push({
+    return scanFiles(
+      files,
+      {
+        binaryCheckSize: binary_check_buffer_size,
+        maxResults: max_results,
+        maxFileSize: max_file_size,
+        encoding,
+        warnings,
+        paging: { query: queryKey(params), cursor },
+        perFileLimit: max_splits ? { name: 'max_splits', value: max_splits, results: max_splits + 1 } : undefined,
+        signal,
+      },
+      async (file, { content }, limit) => {
+        // Find the delimiters in an isolated worker so a runaway pattern cannot block the server
+        const matches = await findMatches(content, regex, undefined, { file, budgetMs: regex_time_budget_ms, signal });
+        const segments = segmentBounds(content, matches, keep_delimiter).filter(
+          ({ start, end }) => !drop_empty || end > start
+        );
+        const lineStarts = buildLineIndex(content);
+
+        // Look up the lines where each segment starts and ends from its offsets
+        const results: SplitResult[] = segments.slice(0, limit).map(({ start, end, delimiter }, i) => {
+          const result: SplitResult = {
             file,
             segment: i + 1,
-            content: segment,
-            line_start: lineStart,
-            line_end: lineEnd,
-          });
-
-          // Move character position forward by segment length
-          charPosition += segment.length;
-
-          // Skip the delimiter in the original content
-          // Find next delimiter to skip its length
-          if (i < limitedSegments.length - 1) {
-            const nextSegment = limitedSegments[i + 1];
-            const delimiterEnd = content.indexOf(nextSegment, charPosition);
-            if (delimiterEnd > charPosition) {
-              charPosition = delimiterEnd;
+            content: content.slice(start, end),
+            line_start: lineAndColumnAt(lineStarts, start).line,
+            line_end: lineAndColumnAt(lineStarts, end).line,
+          };
+
+          if (delimiter) {
+            const { match } = delimiter;
+            result.delimiter = match[0];
+            if (names.length > 0) {
+              result.groups = Array.from(match, group => group ?? null).slice(1);
+            }
+            if (match.groups) {
+              result.named = Object.fromEntries(
+                Object.entries(match.groups).map(([name, group]) => [name, group ?? null])
+              );
             }
           }
-        }
-      } catch (error) {
-        // Skip this file and continue with others
-        continue;
-      }
-    }
+          return result;
+        });
 
-    return allResults;
+        return { results, more: segments.length > limit };
+      }
+    );
   };
 
   try {
     const { timeout = DEFAULT_TIMEOUT_SECONDS } = params;
-    return await withTimeout(operation(), timeout);
+    return await withTimeout(operation, timeout);
   } catch (error) {
     if (error instanceof Error) {
       throw error.message;
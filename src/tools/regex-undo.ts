@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import { writeFileAtomic } from '../utils.js';
+import { resolveStateDir, readJournal, listOperations, removeOperation, hashContent } from '../journal.js';
+import { RegexUndoParams, UndoResult, JournalEntry } from '../types.js';
+
+/**
+ * Restore the files modified by one journaled operation, then drop it from the journal.
+ * Refuses without touching anything if any file has changed since the operation.
+ * A file still holding its pre-image was never written (e.g. the process stopped before
+ * the write) and is left alone.
+ * @param stateDir - Resolved state directory
+ * @param operationId - Operation to undo
+ * @returns Restored files
+ */
+async function undoOperation(stateDir: string, operationId: string): Promise<UndoResult[]> {
+  const entries = await readJournal(stateDir, operationId);
+
+  // Verify every file still holds exactly what the operation wrote, or was never written
+  const changed: string[] = [];
+  const written: JournalEntry[] = [];
+  for (const entry of entries) {
+    try {
+      const hash = hashContent(await fs.readFile(entry.file));
+      if (hash === entry.post_hash) {
+        written.push(entry);
+      } else if (hash !== entry.pre_hash) {
+        changed.push(entry.file);
+      }
+    } catch {
+      changed.push(entry.file);
+    }
+  }
+
+  if (changed.length > 0) {
+    throw new Error(`Cannot undo operation ${operationId}: files changed since it was applied: ${changed.join(', ')}`);
+  }
+
+  // Restore in reverse order of modification
+  const results: UndoResult[] = [];
+  for (const entry of [...written].reverse()) {
+    await writeFileAtomic(entry.file, Buffer.from(entry.content, 'base64'));
+    results.push({ operation_id: operationId, file: entry.file });
+  }
+
+  await removeOperation(stateDir, operationId);
+  return results.reverse();
+}
+
+/**
+ * Undo replacements recorded in the journal by regex_replace.
+ * Either a specific operation or the last N operations (newest first) are restored.
+ * @param params - Undo parameters
+ * @returns Array of restored files
+ * @throws Error string if an operation is unknown or its files changed since it was applied
+ */
+export async function regexUndo(params: RegexUndoParams): Promise<UndoResult[]> {
+  const undone: string[] = [];
+
+  try {
+    const { operation_id, last, state_dir } = params;
+
+    if (operation_id && last !== undefined) {
+      throw new Error('Specify either operation_id or last, not both');
+    }
+
+    const stateDir = resolveStateDir(state_dir);
+
+    if (operation_id) {
+      return await undoOperation(stateDir, operation_id);
+    }
+
+    const count = last ?? 1;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid last: ${count}`);
+    }
+
+    const operations = (await listOperations(stateDir)).slice(-count).reverse();
+    if (operations.length === 0) {
+      throw new Error('No operations to undo');
+    }
+
+    // Undo newest first, so files touched by several operations end up at their oldest pre-image
+    const allResults: UndoResult[] = [];
+    for (const id of operations) {
+      allResults.push(...(await undoOperation(stateDir, id)));
+      undone.push(id);
+    }
+
+    return allResults;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (undone.length > 0) {
+      throw `${message}. Operations already undone: ${undone.join(', ')}`;
+    }
+    throw message;
+  }
+}
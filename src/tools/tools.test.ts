@@ -3,20 +3,32 @@ import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { regexSearch } from './regex-search.js';
-import { regexReplace } from './regex-replace.js';
+import { regexReplace, regexApplyPreview } from './regex-replace.js';
 import { regexExtract } from './regex-extract.js';
 import { regexMatchLines } from './regex-match-lines.js';
 import { regexSplit } from './regex-split.js';
+import { regexBinarySearch } from './regex-binary-search.js';
+import { regexQuery } from './regex-query.js';
+import { regexCount } from './regex-count.js';
+import { regexSections } from './regex-sections.js';
+import { regexUndo } from './regex-undo.js';
+import { MAX_STORED_PREVIEWS, MAX_JOURNAL_OPERATIONS } from '../journal.js';
 
 describe('Regex Tools Integration Tests', () => {
   let tmpDir: string;
+  let stateDir: string;
 
   beforeEach(async () => {
     tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-tools-test-'));
+    // Keep the replace journal out of the home directory
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-tools-state-'));
+    process.env.FS_REGEX_MCP_STATE_DIR = stateDir;
   });
 
   afterEach(async () => {
+    delete process.env.FS_REGEX_MCP_STATE_DIR;
     await fs.rm(tmpDir, { recursive: true, force: true });
+    await fs.rm(stateDir, { recursive: true, force: true });
   });
 
   describe('regexSearch', () => {
@@ -24,7 +36,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Hello World\nTest 123\nAnother test');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
         flags: 'i',
@@ -41,7 +53,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Test 123');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: '/test/i',
       });
@@ -54,7 +66,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'function hello() {}');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'function (\\w+)',
       });
@@ -67,7 +79,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'line1\nline2\nTARGET\nline4\nline5');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'TARGET',
         context_before: 1,
@@ -82,7 +94,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'TeSt\nTEST\ntest');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
         flags: 'gi',
@@ -95,7 +107,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'start\nmiddle\nend');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: '^middle$',
         flags: 'gm',
@@ -109,7 +121,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'line1\nline2\nline3');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'line1.*line3',
         flags: 's',
@@ -124,7 +136,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test\ntest\ntest\ntest');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
         max_matches: 2,
@@ -137,7 +149,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.bin');
       await fs.writeFile(filePath, Buffer.from([0x00, 0x01, 0x02]));
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
       });
@@ -149,7 +161,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.bin');
       await fs.writeFile(filePath, Buffer.from('test\x00data'));
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
         binary_check_buffer_size: 0,
@@ -162,7 +174,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Hello World');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'xyz',
       });
@@ -171,7 +183,7 @@ describe('Regex Tools Integration Tests', () => {
     });
 
     it('should return empty array for non-existent file pattern', async () => {
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: '/nonexistent/*.txt',
         pattern: 'test',
       });
@@ -183,7 +195,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'Hello test1');
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'World test2');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: 'test\\d',
       });
@@ -200,7 +212,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'test1');
       await fs.writeFile(path.join(subDir, 'file2.txt'), 'test2');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: path.join(tmpDir, '**/*.txt'),
         pattern: 'test\\d',
       });
@@ -214,7 +226,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'test');
       await fs.writeFile(path.join(tmpDir, 'file2.log'), 'test');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: path.join(tmpDir, '*'),
         pattern: 'test',
         exclude: ['**/*.log'],
@@ -224,8 +236,53 @@ describe('Regex Tools Integration Tests', () => {
       expect(results[0].file).toContain('file1.txt');
     });
 
+    it('should skip files excluded by .gitignore', async () => {
+      await fs.mkdir(path.join(tmpDir, '.git'));
+      await fs.mkdir(path.join(tmpDir, 'node_modules'));
+      await fs.writeFile(path.join(tmpDir, '.gitignore'), 'node_modules/\n');
+      await fs.writeFile(path.join(tmpDir, 'app.txt'), 'test');
+      await fs.writeFile(path.join(tmpDir, 'node_modules', 'dep.txt'), 'test');
+
+      const { matches: results } = await regexSearch({
+        path_pattern: path.join(tmpDir, '**/*.txt'),
+        pattern: 'test',
+      });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].file).toContain('app.txt');
+    });
+
+    it('should include ignored files when respect_ignore_files is false', async () => {
+      await fs.mkdir(path.join(tmpDir, '.git'));
+      await fs.writeFile(path.join(tmpDir, '.gitignore'), '*.log\n');
+      await fs.writeFile(path.join(tmpDir, 'app.txt'), 'test');
+      await fs.writeFile(path.join(tmpDir, 'debug.log'), 'test');
+
+      const { matches: results } = await regexSearch({
+        path_pattern: path.join(tmpDir, '*'),
+        pattern: 'test',
+        respect_ignore_files: false,
+      });
+
+      expect(results).toHaveLength(2);
+    });
+
+    it('should search an explicitly named file even if it is ignored', async () => {
+      await fs.mkdir(path.join(tmpDir, '.git'));
+      await fs.writeFile(path.join(tmpDir, '.gitignore'), '*.log\n');
+      const filePath = path.join(tmpDir, 'debug.log');
+      await fs.writeFile(filePath, 'test');
+
+      const { matches: results } = await regexSearch({
+        path_pattern: filePath,
+        pattern: 'test',
+      });
+
+      expect(results).toHaveLength(1);
+    });
+
     it('should handle no matching files', async () => {
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: path.join(tmpDir, '*.xyz'),
         pattern: 'test',
       });
@@ -240,7 +297,7 @@ describe('Regex Tools Integration Tests', () => {
       }
 
       const startTime = Date.now();
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: 'test',
       });
@@ -255,7 +312,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test.*\nfunction(x)\n$100.00');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test.*',
         literal: true,
@@ -270,7 +327,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'function(x)\ncall(y)\nmethod(z)');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'function(x)',
         literal: true,
@@ -285,7 +342,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'line1\nline2\nline3\nline4');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'line2\nline3',
         literal: true,
@@ -300,7 +357,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Price: $100.00\nCost: $50.00');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: '$100.00',
         literal: true,
@@ -314,7 +371,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test123\ntest456');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test\\d+',
         literal: false,
@@ -324,6 +381,119 @@ describe('Regex Tools Integration Tests', () => {
       expect(results[0].match).toBe('test123');
       expect(results[1].match).toBe('test456');
     });
+
+    it('should report where multi-line matches end', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a\n  begin x\ny end\n');
+
+      const { matches: results } = await regexSearch({ path_pattern: filePath, pattern: 'begin[\\s\\S]*?end' });
+
+      expect(results[0]).toMatchObject({ line: 2, column: 2, end_line: 3, end_column: 5 });
+    });
+
+    it('should return results in file order when reading files concurrently', async () => {
+      const names = Array.from({ length: 40 }, (_, i) => `file${String(i).padStart(2, '0')}.txt`);
+      await Promise.all(names.map((name, i) => fs.writeFile(path.join(tmpDir, name), 'match\n'.repeat(i % 3 + 1))));
+
+      const { matches: results } = await regexSearch({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'match',
+        flags: 'g',
+        max_results: 1000,
+      });
+
+      const files = [...new Set(results.map((r) => path.basename(r.file)))];
+      expect(files).toEqual(names);
+      expect(results).toHaveLength(names.reduce((sum, _, i) => sum + (i % 3 + 1), 0));
+    });
+
+    describe('proximity', () => {
+      const code = [
+        'lock.acquire();', // 1
+        'step();', // 2
+        'await save();', // 3
+        'unlock();', // 4
+        'await other();', // 5
+        '', // 6
+        '', // 7
+        '', // 8
+        '', // 9
+        'await far();', // 10
+      ].join('\n');
+
+      beforeEach(async () => {
+        await fs.writeFile(path.join(tmpDir, 'code.ts'), code);
+      });
+
+      it('should pair matches with the nearest near hit within near_lines', async () => {
+        const { matches } = await regexSearch({
+          path_pattern: path.join(tmpDir, 'code.ts'),
+          pattern: 'await',
+          flags: 'g',
+          near_pattern: 'lock\\.acquire',
+          near_lines: 5,
+        });
+
+        expect(matches.map((m) => m.line)).toEqual([3, 5]);
+        expect(matches[0].near).toEqual({
+          line: 1,
+          column: 0,
+          end_line: 1,
+          end_column: 12,
+          match: 'lock.acquire',
+          distance: 2,
+        });
+        expect(matches[0].span).toEqual({ start_line: 1, end_line: 3 });
+      });
+
+      it('should respect near_direction', async () => {
+        const params = { path_pattern: path.join(tmpDir, 'code.ts'), pattern: 'await', flags: 'g', near_pattern: 'unlock' };
+
+        const before = await regexSearch({ ...params, near_direction: 'before' });
+        const after = await regexSearch({ ...params, near_direction: 'after' });
+
+        expect(before.matches.map((m) => m.line)).toEqual([5]);
+        expect(after.matches.map((m) => m.line)).toEqual([3]);
+        expect(after.matches[0].span).toEqual({ start_line: 3, end_line: 4 });
+      });
+
+      it('should choose the closest hit on ties of line distance by characters', async () => {
+        await fs.writeFile(path.join(tmpDir, 'code.ts'), 'TODO a security b security');
+
+        const { matches } = await regexSearch({
+          path_pattern: path.join(tmpDir, 'code.ts'),
+          pattern: 'TODO',
+          near_pattern: 'security',
+        });
+
+        expect(matches[0].near).toMatchObject({ column: 7, distance: 0 });
+      });
+
+      it('should count only paired matches towards limits', async () => {
+        const { matches, truncated_by } = await regexSearch({
+          path_pattern: path.join(tmpDir, 'code.ts'),
+          pattern: 'await|step|unlock',
+          flags: 'g',
+          near_pattern: 'lock\\.acquire',
+          near_lines: 2,
+          max_matches: 1,
+        });
+
+        expect(matches.map((m) => m.match)).toEqual(['step']);
+        expect(truncated_by).toEqual({ limit: 'max_matches', value: 1 });
+      });
+
+      it('should skip large files instead of streaming them', async () => {
+        const response = await regexSearch({
+          path_pattern: path.join(tmpDir, 'code.ts'),
+          pattern: 'await',
+          near_pattern: 'lock',
+          max_file_size: 10,
+        });
+
+        expect(response.skipped.map((s) => s.reason)).toEqual(['too_large']);
+      });
+    });
   });
 
   describe('regexReplace', () => {
@@ -331,7 +501,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Hello World\nHello Universe');
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: filePath,
         pattern: 'Hello',
         replacement: 'Hi',
@@ -365,7 +535,7 @@ describe('Regex Tools Integration Tests', () => {
       const original = 'Hello World';
       await fs.writeFile(filePath, original);
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: filePath,
         pattern: 'Hello',
         replacement: 'Hi',
@@ -382,7 +552,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test test test test');
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: filePath,
         pattern: 'test',
         replacement: 'TEST',
@@ -397,7 +567,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Hello World');
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: filePath,
         pattern: 'xyz',
         replacement: 'abc',
@@ -410,7 +580,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'var x = 1;');
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'var y = 2;');
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: 'var (\\w+)',
         replacement: 'const $1',
@@ -433,7 +603,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), original1);
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), original2);
 
-      const results = await regexReplace({
+      const { matches: results } = await regexReplace({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: 'var',
         replacement: 'const',
@@ -449,6 +619,134 @@ describe('Regex Tools Integration Tests', () => {
       expect(content2).toBe(original2);
     });
 
+    it('should return a unified diff per file with output=diff', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'one\ntwo\nthree\n');
+
+      const response = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'two',
+        replacement: 'TWO',
+        dry_run: true,
+        output: 'diff',
+        diff_context: 1,
+      });
+
+      expect(response.matches).toHaveLength(1);
+      expect(response.diffs).toHaveLength(1);
+      expect(response.diffs![0].file).toBe(filePath);
+      expect(response.diffs![0].diff).toMatch(/^--- a\/.*test\.txt\n\+\+\+ b\/.*test\.txt\n/);
+      expect(response.diffs![0].diff).toContain('@@ -1,3 +1,3 @@\n one\n-two\n+TWO\n three\n');
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content).toBe('one\ntwo\nthree\n');
+    });
+
+    it('should not include diffs by default', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const response = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'Hello',
+        replacement: 'Hi',
+        dry_run: true,
+      });
+
+      expect(response.diffs).toBeUndefined();
+    });
+
+    it('should give each result a stable id', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'foo foo');
+
+      const first = await regexReplace({ path_pattern: filePath, pattern: 'foo', replacement: 'bar', dry_run: true });
+      const second = await regexReplace({ path_pattern: filePath, pattern: 'foo', replacement: 'baz', dry_run: true });
+
+      expect(first.matches[0].id).not.toBe(first.matches[1].id);
+      expect(second.matches.map((r) => r.id)).toEqual(first.matches.map((r) => r.id));
+    });
+
+    it('should only replace included ids', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a1 a2 a3 a4');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'a\\d', replacement: 'X', dry_run: true });
+
+      const { matches } = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'a\\d',
+        replacement: 'X',
+        include_ids: [preview.matches[3].id],
+        max_replacements: 1,
+      });
+
+      expect(matches).toHaveLength(1);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('a1 a2 a3 X');
+    });
+
+    it('should not replace excluded ids', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a1 a2 a3');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'a\\d', replacement: 'X', dry_run: true });
+
+      await regexReplace({
+        path_pattern: filePath,
+        pattern: 'a\\d',
+        replacement: 'X',
+        exclude_ids: [preview.matches[1].id],
+      });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('X a2 X');
+    });
+
+    it('should preserve a UTF-8 BOM', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Hello World')]));
+
+      const { matches } = await regexReplace({
+        path_pattern: filePath,
+        pattern: '^Hello',
+        replacement: 'Hi',
+      });
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].column).toBe(0);
+      const bytes = await fs.readFile(filePath);
+      expect(bytes.subarray(0, 3)).toEqual(Buffer.from([0xef, 0xbb, 0xbf]));
+      expect(bytes.subarray(3).toString('utf-8')).toBe('Hi World');
+    });
+
+    it('should keep CRLF line endings for newlines in the replacement', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'first\r\nsecond\r\n');
+
+      await regexReplace({
+        path_pattern: filePath,
+        pattern: 'first',
+        replacement: 'one\ntwo',
+      });
+
+      const content = await fs.readFile(filePath, 'utf-8');
+      expect(content).toBe('one\r\ntwo\r\nsecond\r\n');
+    });
+
+    it.skipIf(process.platform === 'win32')('should preserve file permissions', async () => {
+      const filePath = path.join(tmpDir, 'run.sh');
+      await fs.writeFile(filePath, 'echo old');
+      await fs.chmod(filePath, 0o750);
+
+      await regexReplace({
+        path_pattern: filePath,
+        pattern: 'old',
+        replacement: 'new',
+      });
+
+      expect((await fs.stat(filePath)).mode & 0o777).toBe(0o750);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('echo new');
+    });
+
     it('should replace with literal mode for special chars', async () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test.*\nother');
@@ -545,7 +843,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, '"name": "value"\n"key": "data"');
 
-      const results = await regexExtract({
+      const { matches: results } = await regexExtract({
         path_pattern: filePath,
         pattern: '"(\\w+)":\\s*"(\\w+)"',
         flags: 'g',
@@ -572,7 +870,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'a1 b2 c3 d4');
 
-      const results = await regexExtract({
+      const { matches: results } = await regexExtract({
         path_pattern: filePath,
         pattern: '(\\w)(\\d)',
         flags: 'g',
@@ -586,7 +884,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), '"key1": "val1"');
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), '"key2": "val2"');
 
-      const results = await regexExtract({
+      const { matches: results } = await regexExtract({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: '"(\\w+)":\\s*"(\\w+)"',
         flags: 'g',
@@ -594,6 +892,122 @@ describe('Regex Tools Integration Tests', () => {
 
       expect(results).toHaveLength(2);
     });
+    it('should return named groups and null for groups that did not participate', async () => {
+      const filePath = path.join(tmpDir, 'app.env');
+      await fs.writeFile(filePath, 'PORT=8080\nHOST=local # dev');
+
+      const { matches: results } = await regexExtract({
+        path_pattern: filePath,
+        pattern: '^(?<key>\\w+)=(?<value>.*?)(?: #\\s*(?<comment>.*))?$',
+        flags: 'm',
+      });
+
+      expect(results[0]).toEqual({
+        file: filePath,
+        line: 1,
+        groups: ['PORT', '8080', null],
+        named: { key: 'PORT', value: '8080', comment: null },
+      });
+      expect(results[1].named).toEqual({ key: 'HOST', value: 'local', comment: 'dev' });
+    });
+
+    it('should emit CSV records with a header on the first page only', async () => {
+      const filePath = path.join(tmpDir, 'data.txt');
+      await fs.writeFile(filePath, 'a=1\nb="x, y"\nc=');
+      const params = {
+        path_pattern: filePath,
+        pattern: '^(?<key>\\w)=(.+)?',
+        flags: 'm',
+        format: 'csv' as const,
+        max_results: 2,
+      };
+
+      const first = await regexExtract(params);
+      const second = await regexExtract({ ...params, cursor: first.next_cursor });
+
+      expect(first.matches).toEqual([]);
+      expect(first.output).toBe(`file,line,key,group_2\n${filePath},1,a,1\n${filePath},2,b,"""x, y"""\n`);
+      expect(second.output).toBe(`${filePath},3,c,\n`);
+    });
+
+    it('should emit JSON Lines records', async () => {
+      const filePath = path.join(tmpDir, 'data.txt');
+      await fs.writeFile(filePath, 'a=1\nb=2');
+
+      const response = await regexExtract({ path_pattern: filePath, pattern: '(\\w)=(\\d)', flags: 'g', format: 'jsonl' });
+
+      expect(response.output!.trimEnd().split('\n').map((line) => JSON.parse(line))).toEqual([
+        { file: filePath, line: 1, groups: ['a', '1'] },
+        { file: filePath, line: 2, groups: ['b', '2'] },
+      ]);
+    });
+    describe('unique values', () => {
+      beforeEach(async () => {
+        await fs.writeFile(path.join(tmpDir, 'a.ts'), "isEnabled('beta')\nisEnabled('dark', 'ui')\nisEnabled('beta')");
+        await fs.writeFile(path.join(tmpDir, 'b.ts'), "isEnabled('beta')\nisEnabled('dark', 'api')");
+      });
+
+      it('should collapse identical tuples with counts and sample locations', async () => {
+        const response = await regexExtract({
+          path_pattern: path.join(tmpDir, '*.ts'),
+          pattern: "isEnabled\\('(?<flag>\\w+)'(?:, '(\\w+)')?\\)",
+          unique: true,
+          max_locations: 2,
+        });
+
+        expect(response.matches).toEqual([]);
+        expect(response.values).toEqual([
+          {
+            groups: ['beta', null],
+            named: { flag: 'beta' },
+            count: 3,
+            locations: [
+              { file: path.join(tmpDir, 'a.ts'), line: 1 },
+              { file: path.join(tmpDir, 'a.ts'), line: 3 },
+            ],
+          },
+          {
+            groups: ['dark', 'api'],
+            named: { flag: 'dark' },
+            count: 1,
+            locations: [{ file: path.join(tmpDir, 'b.ts'), line: 2 }],
+          },
+          {
+            groups: ['dark', 'ui'],
+            named: { flag: 'dark' },
+            count: 1,
+            locations: [{ file: path.join(tmpDir, 'a.ts'), line: 2 }],
+          },
+        ]);
+      });
+
+      it('should collapse by group_by only and read past max_results', async () => {
+        const params = {
+          path_pattern: path.join(tmpDir, '*.ts'),
+          pattern: "isEnabled\\('(?<flag>\\w+)'(?:, '(\\w+)')?\\)",
+          group_by: 'flag',
+          max_results: 1,
+        };
+
+        const response = await regexExtract(params);
+        const csv = await regexExtract({ ...params, max_results: 10, format: 'csv' as const });
+
+        expect(response.values!.map(({ groups, count }) => [groups, count])).toEqual([[['beta'], 3]]);
+        expect(response.truncated_by).toEqual({ limit: 'max_results', value: 1 });
+        expect(response.next_cursor).toBeUndefined();
+        expect(csv.output).toBe('flag,count\nbeta,3\ndark,2\n');
+        expect(csv.values).toBeUndefined();
+      });
+
+      it('should reject a group_by the pattern does not have', async () => {
+        const params = { path_pattern: path.join(tmpDir, '*.ts'), pattern: "'(\\w+)'" };
+
+        await expect(regexExtract({ ...params, group_by: [1, 'flag'] })).rejects.toBe(
+          'Pattern has no capture group named "flag": \'(\\w+)\''
+        );
+        await expect(regexExtract({ ...params, group_by: 0 })).rejects.toMatch(/group 0/);
+      });
+    });
   });
 
   describe('regexMatchLines', () => {
@@ -601,7 +1015,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'ERROR: failed\nINFO: success\nERROR: timeout');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: 'ERROR',
       });
@@ -615,7 +1029,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'keep\n# comment\nkeep');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: '^#',
         invert: true,
@@ -630,7 +1044,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test\ntest\ntest\ntest');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: 'test',
         max_lines: 2,
@@ -643,7 +1057,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'one\ntwo\nthree');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: 'two',
       });
@@ -655,7 +1069,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'ERROR: file1');
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'ERROR: file2');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: 'ERROR',
       });
@@ -667,7 +1081,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'function(x)\ntest.*\ncall(y)');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: 'function(x)',
         literal: true,
@@ -682,7 +1096,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'Price: $100.00\nCost: $50.00\nTotal');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: '$',
         literal: true,
@@ -697,7 +1111,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'test123\ntest456\nabc');
 
-      const results = await regexMatchLines({
+      const { matches: results } = await regexMatchLines({
         path_pattern: filePath,
         pattern: 'test\\d+',
         literal: false,
@@ -705,6 +1119,151 @@ describe('Regex Tools Integration Tests', () => {
 
       expect(results).toHaveLength(2);
     });
+
+    it('should merge overlapping context into blocks separated by --', async () => {
+      const filePath = path.join(tmpDir, 'app.log');
+      const lines = ['a', 'b', 'ERROR 1', 'c', 'ERROR 2', 'd', 'e', 'f', 'g', 'ERROR 3'];
+      await fs.writeFile(filePath, lines.join('\n'));
+
+      const { matches: results } = await regexMatchLines({
+        path_pattern: filePath,
+        pattern: 'ERROR',
+        context_before: 1,
+        context_after: 1,
+      });
+
+      expect(results.map(({ line, content, kind }) => [line, content, kind])).toEqual([
+        [2, 'b', 'context'],
+        [3, 'ERROR 1', 'match'],
+        [4, 'c', 'context'],
+        [5, 'ERROR 2', 'match'],
+        [6, 'd', 'context'],
+        [7, '--', 'separator'],
+        [9, 'g', 'context'],
+        [10, 'ERROR 3', 'match'],
+      ]);
+    });
+
+    it('should count only selected lines and keep their context with them', async () => {
+      const filePath = path.join(tmpDir, 'short.log');
+      await fs.writeFile(filePath, 'one\ntwo\nthree\nHIT\nfive');
+
+      const response = await regexMatchLines({
+        path_pattern: filePath,
+        pattern: 'HIT',
+        context_before: 2,
+        max_lines: 1,
+      });
+
+      expect(response.matches.map(({ content, kind }) => [content, kind])).toEqual([
+        ['two', 'context'],
+        ['three', 'context'],
+        ['HIT', 'match'],
+      ]);
+      expect(response.truncated).toBe(false);
+    });
+
+    it('should page through context blocks without splitting them', async () => {
+      const filePath = path.join(tmpDir, 'app.log');
+      const lines = ['a', 'b', 'ERROR 1', 'c', 'ERROR 2', 'd', 'e', 'f', 'g', 'ERROR 3'];
+      await fs.writeFile(filePath, lines.join('\n'));
+      const params = { path_pattern: filePath, pattern: 'ERROR', context_before: 1, context_after: 1, max_results: 1 };
+
+      const pages: Array<Array<[number, string]>> = [];
+      let cursor: string | undefined;
+      do {
+        const response = await regexMatchLines({ ...params, cursor });
+        pages.push(response.matches.map(({ line, content }) => [line, content]));
+        cursor = response.next_cursor;
+      } while (cursor);
+
+      expect(pages).toEqual([
+        [[2, 'b'], [3, 'ERROR 1'], [4, 'c']],
+        [[5, 'ERROR 2'], [6, 'd']],
+        [[7, '--'], [9, 'g'], [10, 'ERROR 3']],
+      ]);
+    });
+
+    it('should keep lines joining a block on the page that ends it', async () => {
+      const filePath = path.join(tmpDir, 'app.log');
+      await fs.writeFile(filePath, 'ERROR 1\nx\ny\nERROR 2');
+      const params = { path_pattern: filePath, pattern: 'ERROR', context_before: 2, context_after: 1, max_results: 1 };
+
+      const first = await regexMatchLines(params);
+      const second = await regexMatchLines({ ...params, cursor: first.next_cursor });
+
+      expect(first.matches.map(({ content }) => content)).toEqual(['ERROR 1', 'x', 'y']);
+      expect(second.matches.map(({ content }) => content)).toEqual(['ERROR 2']);
+    });
+
+    it('should match across lines with a window', async () => {
+      const filePath = path.join(tmpDir, 'code.ts');
+      await fs.writeFile(filePath, 'try {\n} catch (e) {\n}\ntry {\n} catch (e) {\n  log(e);\n}');
+
+      const { matches: results } = await regexMatchLines({
+        path_pattern: filePath,
+        pattern: 'catch \\(\\w+\\) \\{\\n\\}',
+        window: 2,
+      });
+      const { matches: inverted } = await regexMatchLines({
+        path_pattern: filePath,
+        pattern: '\\{\\n\\}',
+        window: 3,
+        invert: true,
+      });
+
+      expect(results).toEqual([{ file: filePath, line: 2, end_line: 3, content: '} catch (e) {\n}' }]);
+      expect(inverted.map(({ line, end_line }) => [line, end_line])).toEqual([
+        [3, 3],
+        [5, 5],
+        [6, 6],
+        [7, 7],
+      ]);
+    });
+
+    it('should keep or drop whole records', async () => {
+      const filePath = path.join(tmpDir, 'app.log');
+      const log = ['preamble', '10:00 ok', '10:01 failed', '  at db/pool.js', '  at main.js', '10:02 ok'];
+      await fs.writeFile(filePath, log.join('\n'));
+      const params = { path_pattern: filePath, pattern: 'db/pool', record_start: '^\\d\\d:\\d\\d ' };
+
+      const { matches: results } = await regexMatchLines(params);
+      const { matches: inverted } = await regexMatchLines({ ...params, invert: true });
+
+      expect(results).toEqual([{ file: filePath, line: 3, end_line: 5, content: log.slice(2, 5).join('\n') }]);
+      expect(inverted.map(({ line, end_line }) => [line, end_line])).toEqual([
+        [1, 1],
+        [2, 2],
+        [6, 6],
+      ]);
+    });
+
+    it('should reject window or record_start with context', async () => {
+      const params = { path_pattern: path.join(tmpDir, '*.log'), pattern: 'x' };
+
+      await expect(regexMatchLines({ ...params, window: 2, context_after: 1 })).rejects.toBe(
+        'context_before and context_after cannot be combined with window or record_start'
+      );
+      await expect(regexMatchLines({ ...params, window: 2, record_start: '^\\d' })).rejects.toBe(
+        'window and record_start cannot be combined'
+      );
+      await expect(regexMatchLines({ ...params, record_start: '(' })).rejects.toMatch(/^record_start: /);
+    });
+
+    it('should separate non-adjacent selected lines with after context only', async () => {
+      const filePath = path.join(tmpDir, 'app.log');
+      await fs.writeFile(filePath, 'x\ny\nz\nx\nx');
+
+      const { matches: results } = await regexMatchLines({ path_pattern: filePath, pattern: 'x', context_after: 1 });
+
+      expect(results.map(({ line, kind }) => [line, kind])).toEqual([
+        [1, 'match'],
+        [2, 'context'],
+        [3, 'separator'],
+        [4, 'match'],
+        [5, 'match'],
+      ]);
+    });
   });
 
   describe('regexSplit', () => {
@@ -712,7 +1271,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'section1\n\nsection2\n\nsection3');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '\\n\\n',
       });
@@ -727,7 +1286,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'a,b,c,d,e');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: ',',
         max_splits: 2,
@@ -740,7 +1299,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'line1\nline2\n---\nline3\nline4');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '---',
       });
@@ -754,7 +1313,7 @@ describe('Regex Tools Integration Tests', () => {
       const content = 'no delimiter here';
       await fs.writeFile(filePath, content);
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '---',
       });
@@ -767,7 +1326,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'section1\n\nsection2');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '\\n\\n',
       });
@@ -779,7 +1338,7 @@ describe('Regex Tools Integration Tests', () => {
       await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'a,b');
       await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'c,d');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: path.join(tmpDir, '*.txt'),
         pattern: ',',
       });
@@ -788,11 +1347,60 @@ describe('Regex Tools Integration Tests', () => {
       expect(results).toHaveLength(4);
     });
 
+    it('should compute line ranges from delimiter offsets', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'x\n--x--\n\n--x--\ny');
+
+      const { matches: results } = await regexSplit({ path_pattern: filePath, pattern: '--x--\\n' });
+
+      expect(results.map(({ content, line_start, line_end }) => [content, line_start, line_end])).toEqual([
+        ['x\n', 1, 2],
+        ['\n', 3, 4],
+        ['y', 5, 5],
+      ]);
+    });
+
+    it('should return delimiter captures as metadata instead of segments', async () => {
+      const filePath = path.join(tmpDir, 'doc.md');
+      await fs.writeFile(filePath, 'intro\n# One\nfirst\n# Two\nsecond');
+
+      const { matches: results } = await regexSplit({
+        path_pattern: filePath,
+        pattern: '^# (?<title>\\w+)(x)?\\n',
+        flags: 'm',
+      });
+
+      expect(results.map(({ content }) => content)).toEqual(['intro\n', 'first\n', 'second']);
+      expect(results[0].delimiter).toBeUndefined();
+      expect(results[1]).toMatchObject({ delimiter: '# One\n', groups: ['One', null], named: { title: 'One' } });
+      expect(results[2].line_start).toBe(5);
+    });
+
+    it('should keep delimiters with the next or previous segment and drop empty segments', async () => {
+      const filePath = path.join(tmpDir, 'doc.md');
+      await fs.writeFile(filePath, '# A\na\n# B\nb\n');
+      const params = { path_pattern: filePath, pattern: '^# \\w', flags: 'm' };
+
+      const next = await regexSplit({ ...params, keep_delimiter: 'next', drop_empty: true });
+      await fs.writeFile(filePath, 'a;b;');
+      const terminated = await regexSplit({ ...params, pattern: ';', keep_delimiter: 'previous' });
+
+      expect(next.matches.map(({ segment, content, delimiter }) => [segment, content, delimiter])).toEqual([
+        [1, '# A\na\n', '# A'],
+        [2, '# B\nb\n', '# B'],
+      ]);
+      expect(terminated.matches.map(({ content, delimiter }) => [content, delimiter])).toEqual([
+        ['a;', ';'],
+        ['b;', ';'],
+        ['', undefined],
+      ]);
+    });
+
     it('should split with literal mode for special chars', async () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'part1***part2***part3');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '***',
         literal: true,
@@ -808,7 +1416,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'section1(||)section2(||)section3');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '(||)',
         literal: true,
@@ -824,7 +1432,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(tmpDir, 'test.txt');
       await fs.writeFile(filePath, 'a1b2c3d');
 
-      const results = await regexSplit({
+      const { matches: results } = await regexSplit({
         path_pattern: filePath,
         pattern: '\\d',
         literal: false,
@@ -838,13 +1446,1035 @@ describe('Regex Tools Integration Tests', () => {
     });
   });
 
+  describe('regexBinarySearch', () => {
+    const header = Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]);
+
+    it('should find hex byte patterns with wildcards in binary files', async () => {
+      const filePath = path.join(tmpDir, 'app.exe');
+      await fs.writeFile(filePath, Buffer.concat([header, Buffer.alloc(8), header]));
+
+      const response = await regexBinarySearch({ path_pattern: filePath, pattern: '4D 5A ?? 00' });
+
+      expect(response.skipped).toEqual([]);
+      expect(response.matches.map((m) => m.offset)).toEqual([0, 16]);
+      expect(response.matches[0]).toMatchObject({ file: filePath, length: 4, hex: '4d 5a 90 00', text: 'MZ..' });
+      expect(response.matches[0].groups).toBeUndefined();
+    });
+
+    it('should accept hex patterns without spaces and in lowercase', async () => {
+      const filePath = path.join(tmpDir, 'app.exe');
+      await fs.writeFile(filePath, header);
+
+      const response = await regexBinarySearch({ path_pattern: filePath, pattern: '4d5a??00' });
+
+      expect(response.matches).toHaveLength(1);
+    });
+
+    it('should return a hexdump around each match', async () => {
+      const filePath = path.join(tmpDir, 'data.bin');
+      await fs.writeFile(filePath, Buffer.concat([Buffer.alloc(20), Buffer.from('MAGIC'), Buffer.alloc(20)]));
+
+      const response = await regexBinarySearch({ path_pattern: filePath, pattern: '4D 41 47 49 43', context_bytes: 4 });
+
+      expect(response.matches[0].offset).toBe(20);
+      expect(response.matches[0].hexdump).toEqual([
+        '00000010  00 00 00 00 4d 41 47 49  43 00 00 00 00 00 00 00  |....MAGIC.......|',
+      ]);
+    });
+
+    it('should show a partial last row at the end of the file', async () => {
+      const filePath = path.join(tmpDir, 'data.bin');
+      await fs.writeFile(filePath, Buffer.from([0x00, 0xff, 0x41]));
+
+      const response = await regexBinarySearch({ path_pattern: filePath, pattern: 'FF' });
+
+      expect(response.matches[0].hexdump).toEqual([
+        '00000000  00 ff 41                                          |..A|',
+      ]);
+    });
+
+    it('should search with latin1 regexes and return capture groups', async () => {
+      const filePath = path.join(tmpDir, 'app.bin');
+      await fs.writeFile(filePath, Buffer.concat([header, Buffer.from('v1.4.2'), Buffer.from([0x00, 0xe9])]));
+
+      const response = await regexBinarySearch({
+        path_pattern: filePath,
+        pattern: 'v(\\d+\\.\\d+\\.\\d+)\\x00\\xe9',
+        mode: 'regex',
+      });
+
+      expect(response.matches).toHaveLength(1);
+      expect(response.matches[0]).toMatchObject({ offset: 8, length: 8, text: 'v1.4.2..' });
+      expect(response.matches[0].groups).toEqual(['v1.4.2\x00é', '1.4.2']);
+    });
+
+    it('should reject invalid hex patterns', async () => {
+      await fs.writeFile(path.join(tmpDir, 'app.exe'), header);
+
+      await expect(regexBinarySearch({ path_pattern: path.join(tmpDir, 'app.exe'), pattern: '4D 5G' })).rejects.toBe(
+        'Invalid hex pattern: "5G" is not a hex byte or ??'
+      );
+      await expect(regexBinarySearch({ path_pattern: path.join(tmpDir, 'app.exe'), pattern: '4D 5' })).rejects.toBe(
+        'Invalid hex pattern: "5" is not a hex byte or ??'
+      );
+    });
+
+    it('should respect max_matches', async () => {
+      const filePath = path.join(tmpDir, 'zeros.bin');
+      await fs.writeFile(filePath, Buffer.alloc(10));
+
+      const response = await regexBinarySearch({ path_pattern: filePath, pattern: '00', max_matches: 3 });
+
+      expect(response.matches.map((m) => m.offset)).toEqual([0, 1, 2]);
+      expect(response.truncated_by).toEqual({ limit: 'max_matches', value: 3 });
+    });
+  });
+
+  describe('regexQuery', () => {
+    beforeEach(async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.ts'), 'useEffect(() => {\n  fetch(url);\n});');
+      await fs.writeFile(
+        path.join(tmpDir, 'b.ts'),
+        'useEffect(() => {\n  const c = new AbortController();\n  fetch(url, c);\n});'
+      );
+      await fs.writeFile(path.join(tmpDir, 'c.ts'), 'useEffect(() => {});');
+    });
+
+    it('should combine all and none terms at file scope', async () => {
+      const response = await regexQuery({
+        path_pattern: path.join(tmpDir, '*.ts'),
+        all: ['useEffect', 'fetch\\('],
+        none: ['AbortController'],
+      });
+
+      expect(response.matches).toEqual([
+        {
+          file: path.join(tmpDir, 'a.ts'),
+          terms: [
+            { term: 'useEffect', hits: [{ line: 1, column: 0, match: 'useEffect' }] },
+            { term: 'fetch\\(', hits: [{ line: 2, column: 2, match: 'fetch(' }] },
+          ],
+        },
+      ]);
+      expect(response.files_scanned).toBe(3);
+    });
+
+    it('should require at least one any term', async () => {
+      const response = await regexQuery({
+        path_pattern: path.join(tmpDir, '*.ts'),
+        any: ['AbortController', 'fetch\\(url\\)'],
+      });
+
+      expect(response.matches.map((m) => path.basename(m.file))).toEqual(['a.ts', 'b.ts']);
+      expect(response.matches[0].terms.map((t) => t.hits.length)).toEqual([0, 1]);
+    });
+
+    it('should return files not matching a none-only query', async () => {
+      const response = await regexQuery({ path_pattern: path.join(tmpDir, '*.ts'), none: ['fetch'] });
+
+      expect(response.matches).toEqual([{ file: path.join(tmpDir, 'c.ts'), terms: [] }]);
+    });
+
+    it('should require terms to match on the same line at line scope', async () => {
+      await fs.writeFile(path.join(tmpDir, 'd.ts'), 'useEffect(() => fetch(url));\nfetch(other);');
+
+      const response = await regexQuery({
+        path_pattern: path.join(tmpDir, '*.ts'),
+        all: ['useEffect', 'fetch'],
+        scope: 'line',
+      });
+
+      expect(response.matches).toEqual([
+        {
+          file: path.join(tmpDir, 'd.ts'),
+          line: 1,
+          content: 'useEffect(() => fetch(url));',
+          terms: [
+            { term: 'useEffect', hits: [{ line: 1, column: 0, match: 'useEffect' }] },
+            { term: 'fetch', hits: [{ line: 1, column: 16, match: 'fetch' }] },
+          ],
+        },
+      ]);
+    });
+
+    it('should anchor terms at line boundaries at line scope', async () => {
+      const response = await regexQuery({ path_pattern: path.join(tmpDir, 'b.ts'), all: ['^\\s+fetch'], scope: 'line' });
+
+      expect(response.matches.map((m) => m.line)).toEqual([3]);
+      expect(response.matches[0].terms[0].hits).toEqual([{ line: 3, column: 0, match: '  fetch' }]);
+    });
+
+    it('should limit hits per term', async () => {
+      await fs.writeFile(path.join(tmpDir, 'many.txt'), 'x x x x');
+
+      const response = await regexQuery({ path_pattern: path.join(tmpDir, 'many.txt'), all: ['x'], max_hits: 2 });
+
+      expect(response.matches[0].terms[0].hits).toHaveLength(2);
+      expect(response.matches[0].terms[0].truncated).toBe(true);
+    });
+
+    it('should page through matching lines', async () => {
+      await fs.writeFile(path.join(tmpDir, 'lines.txt'), 'a\na\na');
+      const params = { path_pattern: path.join(tmpDir, 'lines.txt'), all: ['a'], scope: 'line' as const, max_results: 2 };
+
+      const first = await regexQuery(params);
+      const second = await regexQuery({ ...params, cursor: first.next_cursor });
+
+      expect(first.matches.map((m) => m.line)).toEqual([1, 2]);
+      expect(second.matches.map((m) => m.line)).toEqual([3]);
+    });
+
+    it('should reject a query without terms or with an invalid term', async () => {
+      await expect(regexQuery({ path_pattern: path.join(tmpDir, '*.ts') })).rejects.toBe(
+        'Query needs at least one term in all, any or none'
+      );
+      await expect(regexQuery({ path_pattern: path.join(tmpDir, '*.ts'), all: ['ok', '(unclosed'] })).rejects.toMatch(
+        /^Term "\(unclosed": Invalid regex/
+      );
+    });
+  });
+
+  describe('regexCount', () => {
+    beforeEach(async () => {
+      const requests = (status: number, n: number) => `GET / ${status} 12ms\n`.repeat(n);
+      await fs.writeFile(path.join(tmpDir, 'a.log'), requests(200, 150) + requests(404, 3));
+      await fs.writeFile(path.join(tmpDir, 'b.log'), requests(200, 20) + requests(500, 3) + 'timeout\n');
+      await fs.writeFile(path.join(tmpDir, 'c.log'), 'nothing here');
+    });
+
+    it('should count every match without a max_results cap', async () => {
+      const response = await regexCount({ path_pattern: path.join(tmpDir, '*.log'), pattern: 'GET' });
+
+      expect(response.total).toBe(176);
+      expect(response.matches).toEqual([
+        { file: path.join(tmpDir, 'a.log'), count: 153 },
+        { file: path.join(tmpDir, 'b.log'), count: 23 },
+      ]);
+      expect(response.files_scanned).toBe(3);
+      expect(response.truncated).toBe(false);
+      expect(response.histogram).toBeUndefined();
+    });
+
+    it('should build a histogram of a group by index or name', async () => {
+      const byIndex = await regexCount({ path_pattern: path.join(tmpDir, '*.log'), pattern: ' (\\d{3}) ', group_by: 1 });
+      const byName = await regexCount({
+        path_pattern: path.join(tmpDir, '*.log'),
+        pattern: ' (?<status>\\d{3}) ',
+        group_by: 'status',
+      });
+
+      const expected = [
+        { value: '200', count: 170 },
+        { value: '404', count: 3 },
+        { value: '500', count: 3 },
+      ];
+      expect(byIndex.histogram).toEqual(expected);
+      expect(byName.histogram).toEqual(expected);
+    });
+
+    it('should count matches where the group did not participate as null', async () => {
+      const response = await regexCount({
+        path_pattern: path.join(tmpDir, 'b.log'),
+        pattern: '^(?:GET / (5\\d\\d)|timeout)',
+        flags: 'm',
+        group_by: 1,
+      });
+
+      expect(response.histogram).toEqual([
+        { value: '500', count: 3 },
+        { value: null, count: 1 },
+      ]);
+    });
+
+    it('should reject a group the pattern does not have', async () => {
+      await expect(regexCount({ path_pattern: path.join(tmpDir, '*.log'), pattern: '(\\d+)', group_by: 2 })).rejects.toBe(
+        'Pattern has no capture group 2: (\\d+)'
+      );
+      await expect(
+        regexCount({ path_pattern: path.join(tmpDir, '*.log'), pattern: '(\\d+)', group_by: 'status' })
+      ).rejects.toBe('Pattern has no capture group named "status": (\\d+)');
+    });
+  });
+
+  describe('regexSections', () => {
+    const doc = [
+      'Intro text', // 1
+      '# Guide', // 2
+      'Welcome.', // 3
+      '## Usage', // 4
+      'Pick one.', // 5
+      '### Option 1', // 6
+      '```sh', // 7
+      '# not a heading', // 8
+      '```', // 9
+      '### Option 2 ##', // 10
+      'Second.', // 11
+      '## FAQ', // 12
+      'None yet.', // 13
+      '',
+    ].join('\n');
+
+    beforeEach(async () => {
+      await fs.writeFile(path.join(tmpDir, 'README.md'), doc);
+    });
+
+    it('should build a section tree from Markdown headings', async () => {
+      const { matches } = await regexSections({ path_pattern: path.join(tmpDir, 'README.md') });
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].preamble).toBe('Intro text');
+
+      const [guide] = matches[0].sections;
+      expect(guide).toMatchObject({ title: 'Guide', level: 1, line_start: 2, line_end: 13, body: 'Welcome.' });
+      expect(guide.children.map(({ path, line_start, line_end }) => [path, line_start, line_end])).toEqual([
+        ['Guide > Usage', 4, 11],
+        ['Guide > FAQ', 12, 13],
+      ]);
+      expect(guide.children[0].children.map(({ title, body }) => [title, body])).toEqual([
+        ['Option 1', '```sh\n# not a heading\n```'],
+        ['Option 2', 'Second.'],
+      ]);
+    });
+
+    it('should fetch a section by title path with its content', async () => {
+      const { matches } = await regexSections({
+        path_pattern: path.join(tmpDir, '*.md'),
+        section: 'Usage > Option 2',
+      });
+      const { matches: missing } = await regexSections({
+        path_pattern: path.join(tmpDir, '*.md'),
+        section: 'Usage > FAQ',
+      });
+
+      expect(matches[0].sections).toHaveLength(1);
+      expect(matches[0].sections[0]).toMatchObject({
+        path: 'Guide > Usage > Option 2',
+        content: '### Option 2 ##\nSecond.',
+      });
+      expect(matches[0].preamble).toBeUndefined();
+      expect(missing).toEqual([]);
+    });
+
+    it('should fetch a section whose title contains ">"', async () => {
+      const filePath = path.join(tmpDir, 'arrows.md');
+      await fs.writeFile(filePath, '# Types\n## A -> B\nMapping.\n## a>b\nCompare.');
+
+      const { matches } = await regexSections({ path_pattern: filePath, section: 'Types > A -> B' });
+      const { matches: compact } = await regexSections({ path_pattern: filePath, section: 'a>b' });
+
+      expect(matches[0].sections.map(({ path }) => path)).toEqual(['Types > A -> B']);
+      expect(compact[0].sections.map(({ content }) => content)).toEqual(['## a>b\nCompare.']);
+    });
+
+    it('should take a heading pattern with numeric levels', async () => {
+      const filePath = path.join(tmpDir, 'page.html');
+      await fs.writeFile(filePath, '<h1>Title</h1>\n<p>a</p>\n<h3>Deep</h3>\n<h2>Side</h2>');
+
+      const { matches } = await regexSections({ path_pattern: filePath, pattern: '<h(\\d)>(.*?)</h\\1>' });
+
+      expect(matches[0].sections[0].children.map(({ title, level }) => [title, level])).toEqual([
+        ['Deep', 3],
+        ['Side', 2],
+      ]);
+      await expect(regexSections({ path_pattern: filePath, pattern: '<h(\\d)>' })).rejects.toBe(
+        'Pattern has no capture group 2: <h(\\d)>'
+      );
+    });
+  });
+
+  describe('regexApplyPreview', () => {
+    it('should return a preview token only for dry runs', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const dryRun = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi', dry_run: true });
+      expect(dryRun.preview_token).toBeDefined();
+
+      const applied = await regexReplace({ path_pattern: filePath, pattern: 'Hi', replacement: 'Hey' });
+      expect(applied.preview_token).toBeUndefined();
+    });
+
+    it('should still return a dry run when the preview cannot be saved', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const dryRun = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'Hello',
+        replacement: 'Hi',
+        dry_run: true,
+        state_dir: filePath,
+      });
+      expect(dryRun.matches).toHaveLength(1);
+      expect(dryRun.preview_token).toBeUndefined();
+      expect(dryRun.warnings).toEqual([expect.objectContaining({ code: 'preview_not_saved' })]);
+    });
+
+    it('should keep only the newest previews', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+      const previewDir = path.join(stateDir, 'previews');
+      await fs.mkdir(previewDir);
+      for (let i = 0; i < MAX_STORED_PREVIEWS; i++) {
+        await fs.writeFile(path.join(previewDir, `20000101T000000000Z-${String(i).padStart(6, '0')}.json`), '{}');
+      }
+
+      const dryRun = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi', dry_run: true });
+      const names = await fs.readdir(previewDir);
+      expect(names).toHaveLength(MAX_STORED_PREVIEWS);
+      expect(names).toContain(`${dryRun.preview_token}.json`);
+      expect(names).not.toContain('20000101T000000000Z-000000.json');
+    });
+
+    it('should apply exactly the previewed edits', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'var x = 1;\nvar y = 2;');
+
+      const preview = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'var (\\w+)',
+        replacement: 'const $1',
+        dry_run: true,
+      });
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('var x = 1;\nvar y = 2;');
+
+      const response = await regexApplyPreview({ preview_token: preview.preview_token! });
+
+      expect(response.matches).toEqual(preview.matches);
+      expect(response.skipped).toEqual([]);
+      expect(response.operation_id).toBeDefined();
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('const x = 1;\nconst y = 2;');
+    });
+
+    it('should skip files that changed since the preview', async () => {
+      const changedPath = path.join(tmpDir, 'changed.txt');
+      const stablePath = path.join(tmpDir, 'stable.txt');
+      await fs.writeFile(changedPath, 'var a;');
+      await fs.writeFile(stablePath, 'var b;');
+
+      const preview = await regexReplace({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'var',
+        replacement: 'let',
+        dry_run: true,
+      });
+      await fs.writeFile(changedPath, 'var a; var c;');
+
+      const response = await regexApplyPreview({ preview_token: preview.preview_token! });
+
+      expect(response.skipped).toEqual([{ file: changedPath, reason: 'changed', message: 'File changed since the preview' }]);
+      expect(response.matches.map((r) => r.file)).toEqual([stablePath]);
+      expect(await fs.readFile(changedPath, 'utf-8')).toBe('var a; var c;');
+      expect(await fs.readFile(stablePath, 'utf-8')).toBe('let b;');
+    });
+
+    it.skipIf(process.platform !== 'linux')('should not report a diff for a file that failed to write', async () => {
+      const good = path.join(tmpDir, 'good.txt');
+      await fs.writeFile(good, 'Hello');
+
+      // Files in /proc can be read, but no temporary file can be created next to them
+      const preview = await regexReplace({
+        path_pattern: `{${good},/proc/self/comm}`,
+        pattern: '^[\\s\\S]',
+        replacement: 'J',
+        dry_run: true,
+      });
+      const response = await regexApplyPreview({ preview_token: preview.preview_token!, output: 'diff' });
+
+      expect(response.skipped.map(({ file }) => file)).toEqual(['/proc/self/comm']);
+      expect(response.diffs?.map(({ file }) => file)).toEqual([good]);
+    });
+
+    it('should only apply a preview once', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi', dry_run: true });
+      await regexApplyPreview({ preview_token: preview.preview_token! });
+
+      await expect(regexApplyPreview({ preview_token: preview.preview_token! })).rejects.toMatch(
+        /Preview not found or already applied/
+      );
+    });
+
+    it('should apply only the selected result ids', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'foo foo foo');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'foo', replacement: 'bar', dry_run: true });
+      const ids = preview.matches.map((r) => r.id);
+
+      const response = await regexApplyPreview({ preview_token: preview.preview_token!, include_ids: [ids[0], ids[2]] });
+
+      expect(response.matches.map((r) => r.id)).toEqual([ids[0], ids[2]]);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('bar foo bar');
+    });
+
+    it('should skip excluded result ids', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'foo foo foo');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'foo', replacement: 'bar', dry_run: true });
+
+      await regexApplyPreview({ preview_token: preview.preview_token!, exclude_ids: [preview.matches[1].id] });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('bar foo bar');
+    });
+
+    it('should be undoable', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const preview = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi', dry_run: true });
+      const { operation_id } = await regexApplyPreview({ preview_token: preview.preview_token! });
+      await regexUndo({ operation_id });
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('Hello');
+    });
+  });
+
+  describe('regexUndo', () => {
+    it('should return an operation_id only when files are written', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const dryRun = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi', dry_run: true });
+      expect(dryRun.operation_id).toBeUndefined();
+
+      const applied = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi' });
+      expect(applied.operation_id).toBeDefined();
+    });
+
+    it('should keep only the newest operations in the journal', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+      const journalDir = path.join(stateDir, 'journal');
+      await fs.mkdir(journalDir);
+      for (let i = 0; i < MAX_JOURNAL_OPERATIONS; i++) {
+        await fs.writeFile(path.join(journalDir, `20000101T000000000Z-${String(i).padStart(6, '0')}.jsonl`), '');
+      }
+
+      const { operation_id } = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi' });
+      const names = await fs.readdir(journalDir);
+      expect(names).toHaveLength(MAX_JOURNAL_OPERATIONS);
+      expect(names).toContain(`${operation_id}.jsonl`);
+      expect(names).not.toContain('20000101T000000000Z-000000.jsonl');
+    });
+
+    it('should restore files modified by an operation', async () => {
+      await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'var x = 1;');
+      await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'var y = 2;');
+
+      const { operation_id } = await regexReplace({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'var',
+        replacement: 'const',
+      });
+
+      const results = await regexUndo({ operation_id, state_dir: stateDir });
+
+      expect(results).toHaveLength(2);
+      expect(results.every((r) => r.operation_id === operation_id)).toBe(true);
+      expect(await fs.readFile(path.join(tmpDir, 'file1.txt'), 'utf-8')).toBe('var x = 1;');
+      expect(await fs.readFile(path.join(tmpDir, 'file2.txt'), 'utf-8')).toBe('var y = 2;');
+    });
+
+    it('should undo the last N operations newest first', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a');
+
+      await regexReplace({ path_pattern: filePath, pattern: 'a', replacement: 'b' });
+      await regexReplace({ path_pattern: filePath, pattern: 'b', replacement: 'c' });
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('c');
+
+      const results = await regexUndo({ last: 2 });
+
+      expect(results).toHaveLength(2);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('a');
+    });
+
+    it('should refuse to undo when a file changed since the operation', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello World');
+
+      const { operation_id } = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi' });
+      await fs.writeFile(filePath, 'edited by hand');
+
+      await expect(regexUndo({ operation_id })).rejects.toMatch(/files changed since it was applied/);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('edited by hand');
+    });
+
+    it('should remove an operation from the journal once undone', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'Hello');
+
+      const { operation_id } = await regexReplace({ path_pattern: filePath, pattern: 'Hello', replacement: 'Hi' });
+      await regexUndo({ operation_id });
+
+      await expect(regexUndo({ operation_id })).rejects.toMatch(/Operation not found/);
+    });
+
+    it.skipIf(process.platform !== 'linux')('should keep an operation undoable when one file fails to write', async () => {
+      const good = path.join(tmpDir, 'good.txt');
+      await fs.writeFile(good, 'Hello');
+
+      // Files in /proc can be read, but no temporary file can be created next to them
+      const response = await regexReplace({
+        path_pattern: `{${good},/proc/self/comm}`,
+        pattern: '^[\\s\\S]',
+        replacement: 'J',
+      });
+
+      expect(response.skipped.map(({ file }) => file)).toEqual(['/proc/self/comm']);
+      expect(await fs.readFile(good, 'utf-8')).toBe('Jello');
+
+      const results = await regexUndo({ operation_id: response.operation_id });
+
+      expect(results.map(({ file }) => file)).toEqual([good]);
+      expect(await fs.readFile(good, 'utf-8')).toBe('Hello');
+    });
+
+    it('should treat a file still holding its pre-image as never written', async () => {
+      await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'var x = 1;');
+      await fs.writeFile(path.join(tmpDir, 'file2.txt'), 'var y = 2;');
+
+      const { operation_id } = await regexReplace({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'var',
+        replacement: 'const',
+      });
+      await fs.writeFile(path.join(tmpDir, 'file1.txt'), 'var x = 1;');
+
+      const results = await regexUndo({ operation_id });
+
+      expect(results.map(({ file }) => file)).toEqual([path.join(tmpDir, 'file2.txt')]);
+      expect(await fs.readFile(path.join(tmpDir, 'file2.txt'), 'utf-8')).toBe('var y = 2;');
+    });
+
+    it('should fail when there is nothing to undo', async () => {
+      await expect(regexUndo({})).rejects.toMatch(/No operations to undo/);
+    });
+  });
+
+  describe('Result envelope', () => {
+    it('should report scanned and matched files', async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.txt'), 'foo');
+      await fs.writeFile(path.join(tmpDir, 'b.txt'), 'bar');
+
+      const response = await regexSearch({ path_pattern: path.join(tmpDir, '*.txt'), pattern: 'foo' });
+
+      expect(response.matches).toHaveLength(1);
+      expect(response.files_scanned).toBe(2);
+      expect(response.files_matched).toBe(1);
+      expect(response.skipped).toEqual([]);
+      expect(response.truncated).toBe(false);
+      expect(response.truncated_by).toBeUndefined();
+    });
+
+    it('should list binary files as skipped', async () => {
+      const binaryPath = path.join(tmpDir, 'data.bin');
+      await fs.writeFile(binaryPath, Buffer.from([0x66, 0x6f, 0x6f, 0x00, 0x01]));
+
+      const response = await regexMatchLines({ path_pattern: binaryPath, pattern: 'foo' });
+
+      expect(response.matches).toEqual([]);
+      expect(response.files_scanned).toBe(0);
+      expect(response.skipped).toEqual([{ file: binaryPath, reason: 'binary' }]);
+    });
+
+    it('should skip files that are not valid UTF-8 when replacing', async () => {
+      const latin1Path = path.join(tmpDir, 'latin1.txt');
+      const original = Buffer.from('caf\xe9 foo', 'latin1');
+      await fs.writeFile(latin1Path, original);
+
+      const response = await regexReplace({ path_pattern: latin1Path, pattern: 'foo', replacement: 'bar' });
+
+      expect(response.matches).toEqual([]);
+      expect(response.skipped).toHaveLength(1);
+      expect(response.skipped[0]).toMatchObject({ file: latin1Path, reason: 'decode_error' });
+      expect(await fs.readFile(latin1Path)).toEqual(original);
+    });
+
+    it('should flag truncation by max_results', async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.txt'), 'x x x');
+      await fs.writeFile(path.join(tmpDir, 'b.txt'), 'x');
+
+      const response = await regexSearch({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'x',
+        flags: 'g',
+        max_results: 2,
+      });
+
+      expect(response.matches).toHaveLength(2);
+      expect(response.truncated).toBe(true);
+      expect(response.truncated_by).toEqual({ limit: 'max_results', value: 2 });
+    });
+
+    it('should flag truncation when max_results is reached with files left', async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.txt'), 'x x');
+      await fs.writeFile(path.join(tmpDir, 'b.txt'), 'x');
+
+      const response = await regexSearch({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'x',
+        flags: 'g',
+        max_results: 2,
+      });
+
+      expect(response.matches.map((r) => path.basename(r.file))).toEqual(['a.txt', 'a.txt']);
+      expect(response.files_scanned).toBe(1);
+      expect(response.truncated_by).toEqual({ limit: 'max_results', value: 2 });
+    });
+
+    it('should flag truncation by a per-file limit', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a\na\na');
+
+      const response = await regexMatchLines({ path_pattern: filePath, pattern: 'a', max_lines: 2 });
+
+      expect(response.matches).toHaveLength(2);
+      expect(response.truncated_by).toEqual({ limit: 'max_lines', value: 2 });
+    });
+
+    it('should not flag truncation when results exactly fill the limit', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'x x');
+
+      const response = await regexSearch({ path_pattern: filePath, pattern: 'x', flags: 'g', max_results: 2 });
+
+      expect(response.matches).toHaveLength(2);
+      expect(response.truncated).toBe(false);
+    });
+  });
+
+  describe('Encodings', () => {
+    const utf16le = (text: string) => Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]);
+
+    it('should search UTF-16 files detected by their BOM', async () => {
+      const filePath = path.join(tmpDir, 'settings.reg');
+      await fs.writeFile(filePath, utf16le('[HKEY_CURRENT_USER]\r\n"Name"="välue"\r\n'));
+
+      const response = await regexSearch({ path_pattern: filePath, pattern: '"Name"="([^"]+)"' });
+
+      expect(response.matches).toHaveLength(1);
+      expect(response.matches[0]).toMatchObject({ line: 2, column: 0, groups: ['"Name"="välue"', 'välue'] });
+      expect(response.skipped).toEqual([]);
+      expect(response.encodings).toEqual({ [filePath]: 'utf-16le' });
+    });
+
+    it('should stream UTF-16 files', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, utf16le(Array.from({ length: 50 }, (_, i) => `entry ${i}`).join('\n')));
+
+      const response = await regexMatchLines({ path_pattern: filePath, pattern: 'entry 4\\d', max_file_size: 100 });
+
+      expect(response.matches.map((m) => m.line)).toEqual([41, 42, 43, 44, 45, 46, 47, 48, 49, 50]);
+      expect(response.encodings).toEqual({ [filePath]: 'utf-16le' });
+    });
+
+    it('should read files in an explicit encoding', async () => {
+      const filePath = path.join(tmpDir, 'latin1.txt');
+      await fs.writeFile(filePath, Buffer.from('café crème', 'latin1'));
+
+      const auto = await regexSearch({ path_pattern: filePath, pattern: 'caf.' });
+      const latin1 = await regexSearch({ path_pattern: filePath, pattern: 'caf.', encoding: 'latin1' });
+
+      expect(auto.matches[0].match).toBe('caf�');
+      expect(latin1.matches[0].match).toBe('café');
+      expect(latin1.encodings).toEqual({ [filePath]: 'latin1' });
+    });
+
+    it('should write replacements back in the encoding the file was read in', async () => {
+      const le = path.join(tmpDir, 'le.txt');
+      const be = path.join(tmpDir, 'be.txt');
+      const latin1 = path.join(tmpDir, 'latin1.txt');
+      await fs.writeFile(le, utf16le('hello wörld'));
+      await fs.writeFile(be, Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('hello wörld', 'utf16le').swap16()]));
+      await fs.writeFile(latin1, Buffer.from('hello wörld', 'latin1'));
+
+      await regexReplace({
+        path_pattern: path.join(tmpDir, '*.txt'),
+        pattern: 'wörld',
+        replacement: 'wörlds',
+        exclude: ['**/latin1.txt'],
+      });
+      await regexReplace({ path_pattern: latin1, pattern: 'wörld', replacement: 'wörlds', encoding: 'latin1' });
+
+      expect((await fs.readFile(le)).equals(utf16le('hello wörlds'))).toBe(true);
+      expect(
+        (await fs.readFile(be)).equals(
+          Buffer.concat([Buffer.from([0xfe, 0xff]), Buffer.from('hello wörlds', 'utf16le').swap16()])
+        )
+      ).toBe(true);
+      expect((await fs.readFile(latin1)).equals(Buffer.from('hello wörlds', 'latin1'))).toBe(true);
+    });
+
+    it('should skip files the replacement cannot be encoded in', async () => {
+      const filePath = path.join(tmpDir, 'latin1.txt');
+      await fs.writeFile(filePath, Buffer.from('price: 5 EUR', 'latin1'));
+
+      const response = await regexReplace({ path_pattern: filePath, pattern: 'EUR', replacement: '€', encoding: 'latin1' });
+
+      expect(response.matches).toEqual([]);
+      expect(response.skipped).toEqual([{ file: filePath, reason: 'encode_error', message: 'Cannot encode "€" in latin1' }]);
+      expect(await fs.readFile(filePath, 'latin1')).toBe('price: 5 EUR');
+    });
+
+    it('should apply a preview in the encoding it was computed in', async () => {
+      const filePath = path.join(tmpDir, 'latin1.txt');
+      await fs.writeFile(filePath, Buffer.from('naïve', 'latin1'));
+
+      const preview = await regexReplace({
+        path_pattern: filePath,
+        pattern: 'ï',
+        replacement: 'i',
+        encoding: 'latin1',
+        dry_run: true,
+      });
+      const applied = await regexApplyPreview({ preview_token: preview.preview_token! });
+
+      expect(applied.skipped).toEqual([]);
+      expect(applied.encodings).toEqual({ [filePath]: 'latin1' });
+      expect(await fs.readFile(filePath, 'latin1')).toBe('naive');
+    });
+  });
+
+  describe('Large files', () => {
+    const content = Array.from({ length: 200 }, (_, i) => `row ${i} id=${i}`).join('\n');
+
+    it('should stream files larger than max_file_size in regexSearch', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+
+      const streamed = await regexSearch({
+        path_pattern: filePath,
+        pattern: 'id=(\\d+)5\\b',
+        flags: 'g',
+        context_before: 1,
+        max_file_size: 100,
+        stream_overlap: 32,
+      });
+      const loaded = await regexSearch({ path_pattern: filePath, pattern: 'id=(\\d+)5\\b', flags: 'g', context_before: 1 });
+
+      expect(streamed.matches).toHaveLength(19);
+      expect(streamed.matches).toEqual(loaded.matches);
+      expect(streamed.skipped).toEqual([]);
+    });
+
+    it('should page through a streamed file', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+      const params = { path_pattern: filePath, pattern: 'row', flags: 'g', max_file_size: 100, max_results: 150 };
+
+      const first = await regexSearch(params);
+      const second = await regexSearch({ ...params, cursor: first.next_cursor });
+
+      expect(first.matches).toHaveLength(150);
+      expect(second.matches.map((m) => m.line)).toEqual(Array.from({ length: 50 }, (_, i) => 151 + i));
+      expect(second.next_cursor).toBeUndefined();
+    });
+
+    it('should stream files larger than max_file_size in regexMatchLines', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+
+      const response = await regexMatchLines({
+        path_pattern: filePath,
+        pattern: 'id=1\\d\\d$',
+        max_file_size: 100,
+        max_lines: 5,
+      });
+
+      expect(response.matches.map((m) => m.line)).toEqual([101, 102, 103, 104, 105]);
+      expect(response.matches[0].content).toBe('row 100 id=100');
+      expect(response.truncated_by).toEqual({ limit: 'max_lines', value: 5 });
+    });
+
+    it('should return the same context blocks when streaming regexMatchLines', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+      const params = { path_pattern: filePath, pattern: 'id=(1\\d|\\d+5)0$', context_before: 2, context_after: 3 };
+
+      const whole = await regexMatchLines(params);
+      const streamed = await regexMatchLines({ ...params, max_file_size: 100 });
+
+      expect(streamed.matches).toEqual(whole.matches);
+      expect(whole.matches.filter(({ kind }) => kind === 'separator').length).toBeGreaterThan(0);
+    });
+
+    it('should skip large binary files when streaming', async () => {
+      const filePath = path.join(tmpDir, 'large.bin');
+      await fs.writeFile(filePath, Buffer.concat([Buffer.from(content), Buffer.from([0])]));
+
+      const response = await regexSearch({ path_pattern: filePath, pattern: 'row', max_file_size: 100, binary_check_buffer_size: 0 });
+      expect(response.skipped).toEqual([]);
+
+      const binary = await regexSearch({
+        path_pattern: filePath,
+        pattern: 'row',
+        max_file_size: 100,
+        binary_check_buffer_size: content.length + 1,
+      });
+      expect(binary.skipped).toEqual([{ file: filePath, reason: 'binary' }]);
+    });
+
+    it('should skip files larger than max_file_size in tools that cannot stream', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+
+      const response = await regexExtract({ path_pattern: filePath, pattern: 'id=(\\d+)', max_file_size: 100 });
+
+      expect(response.matches).toEqual([]);
+      expect(response.files_scanned).toBe(0);
+      expect(response.skipped).toEqual([
+        {
+          file: filePath,
+          reason: 'too_large',
+          message: `File is ${content.length} bytes, larger than max_file_size (100)`,
+        },
+      ]);
+    });
+
+    it('should load every file whole when max_file_size is 0', async () => {
+      const filePath = path.join(tmpDir, 'large.txt');
+      await fs.writeFile(filePath, content);
+
+      const response = await regexExtract({ path_pattern: filePath, pattern: 'id=(\\d+)', max_file_size: 0, max_results: 3 });
+
+      expect(response.matches).toHaveLength(3);
+      expect(response.skipped).toEqual([]);
+    });
+  });
+
+  describe('Regex time budget', () => {
+    it('should fail with a clear error when a regex exceeds its time budget', async () => {
+      const filePath = path.join(tmpDir, 'slow.txt');
+      await fs.writeFile(filePath, 'a'.repeat(40) + '!');
+
+      await expect(
+        regexSearch({ path_pattern: filePath, pattern: '(a+)+$', regex_time_budget_ms: 100 })
+      ).rejects.toBe(`Regex exceeded time budget of 100ms on file ${filePath}`);
+
+      // The server stays responsive for further requests
+      const { matches } = await regexMatchLines({ path_pattern: filePath, pattern: '!' });
+      expect(matches).toHaveLength(1);
+    });
+
+    it('should not modify files when replacing with a runaway regex', async () => {
+      const filePath = path.join(tmpDir, 'slow.txt');
+      await fs.writeFile(filePath, 'a'.repeat(40) + '!');
+
+      await expect(
+        regexReplace({ path_pattern: filePath, pattern: '(a+)+$', replacement: 'x', regex_time_budget_ms: 100 })
+      ).rejects.toContain('Regex exceeded time budget');
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('a'.repeat(40) + '!');
+    });
+  });
+
+  describe('Pattern warnings', () => {
+    it('should return warnings alongside results', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'import a\nimport b');
+
+      const response = await regexSearch({ path_pattern: filePath, pattern: '^import' });
+
+      expect(response.matches).toHaveLength(1);
+      expect(response.warnings?.map((w) => w.code)).toEqual(['anchor_without_multiline']);
+    });
+
+    it('should omit warnings for a clean pattern and in per-line mode', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'import a\nimport b');
+
+      const search = await regexSearch({ path_pattern: filePath, pattern: '^import', flags: 'm' });
+      const lines = await regexMatchLines({ path_pattern: filePath, pattern: '^import' });
+
+      expect(search.warnings).toBeUndefined();
+      expect(lines.warnings).toBeUndefined();
+      expect(lines.matches).toHaveLength(2);
+    });
+
+    it('should return warnings when no files match', async () => {
+      const response = await regexSearch({ path_pattern: path.join(tmpDir, '*.none'), pattern: '(a+)+' });
+      expect(response.warnings?.map((w) => w.code)).toEqual(['nested_quantifier']);
+    });
+  });
+
+  describe('Pagination', () => {
+    it('should page through results across and within files', async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.txt'), 'x1 x2 x3');
+      await fs.writeFile(path.join(tmpDir, 'b.txt'), 'x4');
+      await fs.writeFile(path.join(tmpDir, 'c.txt'), 'x5 x6');
+      const params = { path_pattern: path.join(tmpDir, '*.txt'), pattern: 'x\\d', flags: 'g', max_results: 2 };
+
+      const pages: string[][] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await regexSearch({ ...params, cursor });
+        pages.push(response.matches.map((r) => r.match));
+        cursor = response.next_cursor;
+      } while (cursor);
+
+      expect(pages).toEqual([['x1', 'x2'], ['x3', 'x4'], ['x5', 'x6']]);
+    });
+
+    it('should return stable pages for the same cursor', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a\nb\nc\nd');
+      const params = { path_pattern: filePath, pattern: '.', max_results: 1 };
+
+      const first = await regexMatchLines(params);
+      const second = await regexMatchLines({ ...params, cursor: first.next_cursor });
+      const again = await regexMatchLines({ ...params, cursor: first.next_cursor });
+
+      expect(second.matches).toEqual(again.matches);
+      expect(second.matches[0].content).toBe('b');
+    });
+
+    it('should keep per-file limits across pages', async () => {
+      await fs.writeFile(path.join(tmpDir, 'a.txt'), 'k=1 k=2 k=3');
+      await fs.writeFile(path.join(tmpDir, 'b.txt'), 'k=4');
+      const params = { path_pattern: path.join(tmpDir, '*.txt'), pattern: 'k=(\\d)', flags: 'g', max_matches: 2, max_results: 1 };
+
+      const first = await regexExtract(params);
+      const second = await regexExtract({ ...params, cursor: first.next_cursor });
+      const third = await regexExtract({ ...params, cursor: second.next_cursor });
+
+      expect([first, second, third].map((r) => r.matches[0].groups[0])).toEqual(['1', '2', '4']);
+      expect(third.next_cursor).toBeUndefined();
+    });
+
+    it('should not return a cursor when nothing is left', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'one|two');
+
+      const response = await regexSplit({ path_pattern: filePath, pattern: '\\|', max_results: 2 });
+
+      expect(response.matches).toHaveLength(2);
+      expect(response.next_cursor).toBeUndefined();
+    });
+
+    it('should reject a cursor from a different query', async () => {
+      const filePath = path.join(tmpDir, 'test.txt');
+      await fs.writeFile(filePath, 'a a a');
+
+      const first = await regexSearch({ path_pattern: filePath, pattern: 'a', flags: 'g', max_results: 1 });
+
+      await expect(
+        regexSearch({ path_pattern: filePath, pattern: 'b', flags: 'g', max_results: 1, cursor: first.next_cursor })
+      ).rejects.toContain('Cursor does not belong to this query');
+      await expect(regexSearch({ path_pattern: filePath, pattern: 'a', cursor: '!!' })).rejects.toBe('Invalid cursor');
+    });
+  });
+
   describe('Cross-platform compatibility', () => {
     it('should handle different line endings', async () => {
       const filePath = path.join(tmpDir, 'test.txt');
       // Write with Windows line endings
       await fs.writeFile(filePath, 'line1\r\nline2\r\nline3');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'line',
         flags: 'g',
@@ -859,7 +2489,7 @@ describe('Regex Tools Integration Tests', () => {
       const filePath = path.join(dirWithSpaces, 'test file.txt');
       await fs.writeFile(filePath, 'test content');
 
-      const results = await regexSearch({
+      const { matches: results } = await regexSearch({
         path_pattern: filePath,
         pattern: 'test',
       });
@@ -1,3 +1,8 @@
+/**
+ * Encoding a text file is read and written in
+ */
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
 /**
  * Common parameters shared across tools
  */
@@ -8,8 +13,12 @@ export interface BaseParams {
   binary_check_buffer_size?: number;
   path_pattern: string;
   exclude?: string[];
+  respect_ignore_files?: boolean; // Skip files excluded by .gitignore/.ignore (default: true)
   timeout?: number; // Total operation timeout in seconds (default: 30)
+  regex_time_budget_ms?: number; // Time the regex may run on a single file, in milliseconds (default: 5000)
   max_results?: number; // Global limit for results across all files (default: 100)
+  max_file_size?: number; // Larger files are streamed by search and match_lines, skipped by others (default: 50 MiB, <= 0: no limit)
+  encoding?: TextEncoding | 'auto'; // 'auto' detects UTF-8/UTF-16 from the BOM, otherwise reads UTF-8 (default: 'auto')
 }
 
 /**
@@ -19,6 +28,11 @@ export interface RegexSearchParams extends BaseParams {
   context_before?: number;
   context_after?: number;
   max_matches?: number;
+  stream_overlap?: number; // Characters shared by consecutive windows when streaming large files (default: 65536)
+  near_pattern?: string; // Proximity search: only return matches with a hit of this pattern nearby
+  near_lines?: number; // Maximum lines between the starts of a match and its near hit (default: 5)
+  near_direction?: 'before' | 'after' | 'either'; // Where the near hit must be relative to the match (default: 'either')
+  cursor?: string; // next_cursor from the previous page
 }
 
 /**
@@ -30,6 +44,11 @@ export interface RegexReplaceParams extends BaseParams {
   context_after?: number;
   dry_run?: boolean;
   max_replacements?: number;
+  output?: 'matches' | 'diff'; // 'diff' adds a unified diff per modified file (default: 'matches')
+  diff_context?: number; // Context lines around each diff hunk (default: 3)
+  state_dir?: string; // Directory for the undo journal (default: $FS_REGEX_MCP_STATE_DIR or ~/.fs-regex-mcp)
+  include_ids?: string[]; // Only apply matches with these ReplaceResult ids
+  exclude_ids?: string[]; // Apply all matches except those with these ReplaceResult ids
 }
 
 /**
@@ -37,6 +56,11 @@ export interface RegexReplaceParams extends BaseParams {
  */
 export interface RegexExtractParams extends BaseParams {
   max_matches?: number;
+  format?: 'json' | 'csv' | 'jsonl'; // csv/jsonl: records as text in output (default: json)
+  unique?: boolean; // Collapse identical capture tuples into values with counts
+  group_by?: number | string | Array<number | string>; // Collapse by these groups only (implies unique)
+  max_locations?: number; // Sample locations kept per value (default: 3)
+  cursor?: string; // next_cursor from the previous page
 }
 
 /**
@@ -45,6 +69,11 @@ export interface RegexExtractParams extends BaseParams {
 export interface RegexMatchLinesParams extends BaseParams {
   invert?: boolean;
   max_lines?: number;
+  context_before?: number; // Lines before each selected line, merged into blocks (default: 0)
+  context_after?: number; // Lines after each selected line, merged into blocks (default: 0)
+  window?: number; // Test groups of this many consecutive lines, for matches starting on each line (default: 1)
+  record_start?: string; // Regex for the first line of a record; the pattern is tested against whole records
+  cursor?: string; // next_cursor from the previous page
 }
 
 /**
@@ -52,6 +81,116 @@ export interface RegexMatchLinesParams extends BaseParams {
  */
 export interface RegexSplitParams extends BaseParams {
   max_splits?: number;
+  keep_delimiter?: 'next' | 'previous'; // Keep each delimiter at the start of the next or the end of the previous segment (default: dropped)
+  drop_empty?: boolean; // Leave out empty segments (default: false)
+  cursor?: string; // next_cursor from the previous page
+}
+
+/**
+ * Parameters for regex_binary_search. Files are searched as raw bytes, so there is no
+ * binary detection or encoding.
+ */
+export interface RegexBinarySearchParams extends Omit<BaseParams, 'binary_check_buffer_size' | 'encoding'> {
+  mode?: 'hex' | 'regex'; // 'hex': byte pattern such as "4D 5A ?? 00"; 'regex': regex over the bytes as latin1 (default: 'hex')
+  context_bytes?: number; // Bytes before and after each match to include in the hexdump (default: 16)
+  max_matches?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+/**
+ * Parameters for regex_query. Terms are patterns (or /pattern/flags), combined as
+ * all AND (at least one of any) AND NOT any of none, within a file or a single line.
+ */
+export interface RegexQueryParams extends Omit<BaseParams, 'pattern'> {
+  all?: string[]; // Terms that must all match
+  any?: string[]; // Terms of which at least one must match
+  none?: string[]; // Terms that must not match
+  scope?: 'file' | 'line'; // Where the terms must match together (default: 'file')
+  max_hits?: number; // Hits returned per positive term in each result (default: 10)
+  cursor?: string; // next_cursor from the previous page
+}
+
+/**
+ * Parameters for regex_count. There is no max_results: every match is counted.
+ */
+export interface RegexCountParams extends Omit<BaseParams, 'max_results'> {
+  group_by?: number | string; // Capture group (index or name) whose values are counted in a histogram
+}
+
+/**
+ * Parameters for regex_sections. The pattern matches headings and defaults to Markdown ATX headings.
+ */
+export interface RegexSectionsParams extends Omit<BaseParams, 'pattern' | 'literal'> {
+  pattern?: string; // Heading regex with a level and a title group (default: Markdown "#" headings)
+  level_group?: number | string; // Group giving the level, as digits or by its length (default: "level", else 1)
+  title_group?: number | string; // Group giving the title (default: "title", else 2)
+  section?: string; // Title path of the section to return, e.g. "Usage > Option 2"
+  skip_fences?: boolean; // Ignore headings inside ``` and ~~~ fenced code blocks (default: true)
+  cursor?: string; // next_cursor from the previous page
+}
+
+/**
+ * Parameters for applying a regex_replace preview
+ */
+export interface RegexApplyPreviewParams {
+  preview_token: string; // Token returned by a regex_replace dry run
+  state_dir?: string;
+  include_ids?: string[];
+  exclude_ids?: string[];
+  output?: 'matches' | 'diff';
+  diff_context?: number;
+  timeout?: number;
+}
+
+/**
+ * Parameters for regex_undo
+ */
+export interface RegexUndoParams {
+  operation_id?: string; // Operation to undo
+  last?: number; // Undo the last N operations, newest first (default: 1 if operation_id is not given)
+  state_dir?: string;
+}
+
+/**
+ * A file that was not processed, with the reason:
+ * 'binary', 'too_large', 'decode_error', 'encode_error' (replace), 'changed' (preview apply),
+ * an fs error code such as 'EACCES' or 'ENOENT', or 'error'
+ */
+export interface SkippedFile {
+  file: string;
+  reason: string;
+  message?: string;
+}
+
+/**
+ * The limit that cut a result set short
+ */
+export interface TruncationLimit {
+  limit: string; // Parameter name, e.g. 'max_results'
+  value: number;
+}
+
+/**
+ * A likely mistake found in a pattern; reported with the results, not as an error
+ */
+export interface PatternWarning {
+  code: string; // e.g. 'nested_quantifier', 'anchor_without_multiline', 'dot_without_dotall', 'unescaped_dot'
+  message: string;
+}
+
+/**
+ * Envelope returned by all file tools
+ */
+export interface ToolResponse<T> {
+  matches: T[];
+  files_scanned: number; // Text files read and processed
+  files_matched: number; // Files with at least one result
+  skipped: SkippedFile[]; // Files that could not be processed, and why
+  truncated: boolean; // True if a limit stopped the results early; more may exist
+  truncated_by?: TruncationLimit;
+  next_cursor?: string; // Pass as cursor to fetch the next page when max_results stopped the scan
+  warnings?: PatternWarning[]; // Likely mistakes in the pattern, if any
+  encodings?: Record<string, TextEncoding>; // Encoding each matched file was read in
 }
 
 /**
@@ -61,19 +200,59 @@ export interface SearchResult {
   file: string;
   line: number;
   column: number;
+  end_line: number; // Line of the end of the match (differs from line for multi-line matches)
+  end_column: number; // Column just after the last character of the match
   match: string;
   groups: string[];
   context_before: string[];
   context_after: string[];
+  near?: NearHit; // Nearest hit of near_pattern (proximity search only)
+  span?: LineSpan; // Lines covered by the match and its near hit (proximity search only)
+}
+
+/**
+ * Hit of the near_pattern paired with a regex_search match
+ */
+export interface NearHit {
+  line: number;
+  column: number;
+  end_line: number;
+  end_column: number;
+  match: string;
+  distance: number; // Lines between the starts of the match and this hit (0: same line)
+}
+
+/**
+ * A range of lines (1-based, inclusive)
+ */
+export interface LineSpan {
+  start_line: number;
+  end_line: number;
+}
+
+/**
+ * Result from regex_binary_search
+ */
+export interface BinarySearchResult {
+  file: string;
+  offset: number; // Byte offset of the match
+  length: number; // Length of the match in bytes
+  hex: string; // Matched bytes, e.g. "4d 5a 90 00"
+  text: string; // Matched bytes as ASCII, with non-printable bytes shown as "."
+  groups?: string[]; // Match and capture groups as latin1 text (regex mode only)
+  hexdump: string[]; // hexdump -C style rows covering the match and its context
 }
 
 /**
  * Result from regex_replace
  */
 export interface ReplaceResult {
+  id: string; // Stable id derived from file, offset and original text
   file: string;
   line: number;
   column: number;
+  end_line: number; // Line of the end of the match (differs from line for multi-line matches)
+  end_column: number; // Column just after the last character of the match
   original: string;
   replacement: string;
   groups: string[];
@@ -81,13 +260,95 @@ export interface ReplaceResult {
   context_after: string[];
 }
 
+/**
+ * Unified diff for one modified file
+ */
+export interface FileDiff {
+  file: string;
+  diff: string;
+}
+
+/**
+ * Response from regex_replace
+ */
+export interface ReplaceResponse extends ToolResponse<ReplaceResult> {
+  diffs?: FileDiff[];
+  operation_id?: string; // Journal id of the applied replacement, for regex_undo
+  preview_token?: string; // Dry runs only: token to apply exactly these edits later
+}
+
+/**
+ * A single replacement at a character offset of the decoded file content
+ */
+export interface ReplaceEdit {
+  offset: number;
+  length: number;
+  replacement: string;
+}
+
+/**
+ * A previewed file: the content hash the edits were computed against, and the edits
+ */
+export interface ReplacePreviewFile {
+  file: string;
+  encoding: TextEncoding; // Encoding the file was read in, and is written back in
+  hash: string;
+  edits: ReplaceEdit[];
+  results: ReplaceResult[];
+}
+
+/**
+ * Stored result of a regex_replace dry run
+ */
+export interface ReplacePreview {
+  token: string;
+  created_at: string;
+  files: ReplacePreviewFile[];
+}
+
+/**
+ * Result from regex_undo (one per restored file)
+ */
+export interface UndoResult {
+  operation_id: string;
+  file: string;
+}
+
 /**
  * Result from regex_extract
  */
 export interface ExtractResult {
   file: string;
   line: number;
-  groups: string[];
+  groups: Array<string | null>; // null for groups that did not participate in the match
+  named?: Record<string, string | null>; // Named groups by name, when the pattern has any
+}
+
+/**
+ * Location of a match in regex_extract values
+ */
+export interface ExtractLocation {
+  file: string;
+  line: number;
+}
+
+/**
+ * Distinct capture tuple from regex_extract with unique or group_by
+ */
+export interface ExtractValue {
+  groups: Array<string | null>; // Values of the collapsed groups, in group_by order
+  named?: Record<string, string | null>; // Named groups among them, by name
+  count: number; // Occurrences across all files
+  locations: ExtractLocation[]; // First occurrences, up to max_locations
+}
+
+/**
+ * Response of regex_extract. With unique or group_by the distinct tuples are in values;
+ * with format csv or jsonl the records are in output. In both cases matches is empty.
+ */
+export interface ExtractResponse extends ToolResponse<ExtractResult> {
+  values?: ExtractValue[];
+  output?: string;
 }
 
 /**
@@ -97,6 +358,60 @@ export interface MatchLinesResult {
   file: string;
   line: number;
   content: string;
+  kind?: 'match' | 'context' | 'separator'; // With context; a separator ("--") stands for the lines skipped from line on
+  end_line?: number; // With window or record_start, last line of content
+}
+
+/**
+ * A match of one query term
+ */
+export interface QueryHit {
+  line: number;
+  column: number;
+  match: string;
+}
+
+/**
+ * Hits of one positive query term
+ */
+export interface QueryTermHits {
+  term: string; // Term as given in all or any
+  hits: QueryHit[];
+  truncated?: boolean; // True if max_hits cut the hits short
+}
+
+/**
+ * Result from regex_query: a matching file (file scope) or line (line scope)
+ */
+export interface QueryResult {
+  file: string;
+  line?: number; // Line scope only
+  content?: string; // Line scope only
+  terms: QueryTermHits[]; // Hits of each term in all and any, in query order
+}
+
+/**
+ * Match count of one file, from regex_count
+ */
+export interface CountResult {
+  file: string;
+  count: number;
+}
+
+/**
+ * Occurrences of one capture group value
+ */
+export interface HistogramBucket {
+  value: string | null; // null: the group did not participate in the match
+  count: number;
+}
+
+/**
+ * Response of regex_count: per-file counts in matches, with the total and histogram
+ */
+export interface CountResponse extends ToolResponse<CountResult> {
+  total: number; // Matches across all files
+  histogram?: HistogramBucket[]; // Values of group_by, most frequent first
 }
 
 /**
@@ -108,6 +423,44 @@ export interface SplitResult {
   content: string;
   line_start: number;
   line_end: number;
+  delimiter?: string; // Delimiter before the segment, or after it with keep_delimiter 'previous'
+  groups?: Array<string | null>; // Capture groups of that delimiter, null if a group did not participate
+  named?: Record<string, string | null>; // Named groups of that delimiter, by name
+}
+
+/**
+ * A section of a document, from its heading to the next heading of the same or a higher level
+ */
+export interface Section {
+  title: string;
+  level: number;
+  path: string; // Titles from the top-level section down, joined by " > "
+  line_start: number; // Line of the heading
+  line_end: number; // Last line of the section, subsections included
+  body: string; // Text between the heading and the first subsection
+  content?: string; // Whole section, heading and subsections included; set when fetched by path
+  children: Section[];
+}
+
+/**
+ * Result from regex_sections: the section tree of one file, or the sections at the requested path
+ */
+export interface SectionsResult {
+  file: string;
+  preamble?: string; // Text before the first heading, if any
+  sections: Section[];
+}
+
+/**
+ * Journal record of one file modified by regex_replace
+ */
+export interface JournalEntry {
+  operation_id: string;
+  file: string;
+  timestamp: string;
+  pre_hash: string; // SHA-256 of the file before replacement
+  post_hash: string; // SHA-256 of the file after replacement
+  content: string; // Base64 pre-image
 }
 
 /**
@@ -118,6 +471,16 @@ export interface ParsedPattern {
   flags: string;
 }
 
+/**
+ * Text file content with the details needed to write it back unchanged
+ */
+export interface TextFile {
+  content: string; // Decoded content, without BOM
+  encoding: TextEncoding;
+  bom: boolean; // Whether the file starts with the byte order mark of its encoding
+  eol: '\n' | '\r\n'; // Dominant line ending
+}
+
 /**
  * File processing result for multi-file operations
  */
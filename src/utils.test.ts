@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -12,8 +12,19 @@ import {
   createRegex,
   findAllMatches,
   getLineAndColumn,
+  buildLineIndex,
+  lineAndColumnAt,
   validateCaptureGroups,
+  captureGroupNames,
+  captureGroupIndex,
   processReplacement,
+  withTimeout,
+  findFiles,
+  detectLineEnding,
+  readTextFile,
+  encodeText,
+  detectEncoding,
+  writeFileAtomic,
 } from './utils.js';
 
 describe('parsePattern', () => {
@@ -242,6 +253,12 @@ describe('findAllMatches', () => {
     const matches = findAllMatches('abc def', regex);
     expect(matches).toHaveLength(0);
   });
+
+  it('should stop when the signal is aborted', () => {
+    const controller = new AbortController();
+    controller.abort(new Error('stopped'));
+    expect(() => findAllMatches('abc 123', /\d+/g, undefined, controller.signal)).toThrow('stopped');
+  });
 });
 
 describe('getLineAndColumn', () => {
@@ -263,6 +280,22 @@ describe('getLineAndColumn', () => {
   });
 });
 
+describe('buildLineIndex and lineAndColumnAt', () => {
+  const text = 'line1\nline2\n\nline4\n';
+  const lineStarts = buildLineIndex(text);
+
+  it('should record the start of every line', () => {
+    expect(lineStarts).toEqual([0, 6, 12, 13, 19]);
+    expect(buildLineIndex('')).toEqual([0]);
+  });
+
+  it('should agree with getLineAndColumn at every position', () => {
+    for (let i = 0; i <= text.length; i++) {
+      expect(lineAndColumnAt(lineStarts, i)).toEqual(getLineAndColumn(text, i));
+    }
+  });
+});
+
 describe('validateCaptureGroups', () => {
   it('should pass for pattern with capture groups', () => {
     expect(() => validateCaptureGroups('(\\d+)')).not.toThrow();
@@ -279,6 +312,35 @@ describe('validateCaptureGroups', () => {
   it('should throw for non-capturing groups', () => {
     expect(() => validateCaptureGroups('(?:\\d+)')).toThrow();
   });
+
+  it('should not count escaped parentheses or parentheses in character classes', () => {
+    expect(() => validateCaptureGroups('foo\\(\\d+\\)')).toThrow('Pattern has no capture groups');
+    expect(() => validateCaptureGroups('[(]\\w+[)]')).toThrow('Pattern has no capture groups');
+    expect(() => validateCaptureGroups('(?<=\\$)\\d+')).toThrow('Pattern has no capture groups');
+    expect(() => validateCaptureGroups('\\\\(\\d+)')).not.toThrow();
+  });
+});
+
+describe('captureGroupNames', () => {
+  it('should list numbered and named groups in order', () => {
+    expect(captureGroupNames('(?<key>\\w+)=(\\d+)(?:x)(?<=a)(?<rest>.*)')).toEqual(['key', undefined, 'rest']);
+  });
+
+  it('should ignore escaped parentheses and character classes', () => {
+    expect(captureGroupNames('\\((?<a>[(])\\)')).toEqual(['a']);
+  });
+});
+
+describe('captureGroupIndex', () => {
+  it('should resolve group indexes and names', () => {
+    expect(captureGroupIndex('(a)(?<b>b)', 0)).toBe(0);
+    expect(captureGroupIndex('(a)(?<b>b)', 'b')).toBe(2);
+  });
+
+  it('should reject groups the pattern does not have', () => {
+    expect(() => captureGroupIndex('(a)', 2)).toThrow('Pattern has no capture group 2: (a)');
+    expect(() => captureGroupIndex('(a)', 'b')).toThrow('Pattern has no capture group named "b": (a)');
+  });
 });
 
 describe('processReplacement', () => {
@@ -344,3 +406,198 @@ describe('readFileWithBinaryCheck', () => {
     await expect(readFileWithBinaryCheck('/nonexistent')).rejects.toThrow('File not found');
   });
 });
+
+describe('withTimeout', () => {
+  it('should return the operation result', async () => {
+    const result = await withTimeout(async () => 42, 1);
+    expect(result).toBe(42);
+  });
+
+  it('should abort the signal and wait for the operation to stop', async () => {
+    const steps: number[] = [];
+
+    const promise = withTimeout(async (signal) => {
+      for (let i = 0; i < 100; i++) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        signal.throwIfAborted();
+        steps.push(i);
+      }
+      return 'done';
+    }, 0.02);
+
+    await expect(promise).rejects.toThrow('Operation timed out after 0.02 seconds');
+    const stepsAtRejection = steps.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(steps.length).toBe(stepsAtRejection);
+    expect(steps.length).toBeLessThan(100);
+  });
+});
+
+describe('findFiles', () => {
+  it('should reject with the abort reason without waiting for the glob', async () => {
+    const controller = new AbortController();
+    const promise = findFiles(path.join(os.tmpdir(), 'no-such-dir', '**'), [], true, controller.signal);
+    controller.abort(new Error('Operation timed out after 1 seconds'));
+
+    await expect(promise).rejects.toThrow('Operation timed out after 1 seconds');
+  });
+
+  it('should reject at once with an aborted signal', async () => {
+    await expect(findFiles('*.ts', [], true, AbortSignal.abort(new Error('aborted')))).rejects.toThrow('aborted');
+  });
+
+  it('should not walk into ignored directories', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-test-'));
+    const readdir = vi.spyOn(fs, 'readdir');
+    try {
+      await fs.mkdir(path.join(tmpDir, '.git'));
+      await fs.mkdir(path.join(tmpDir, 'node_modules', 'pkg'), { recursive: true });
+      await fs.mkdir(path.join(tmpDir, 'src'));
+      await fs.writeFile(path.join(tmpDir, '.gitignore'), 'node_modules/\n*.gen.ts\n');
+      await fs.writeFile(path.join(tmpDir, 'node_modules', 'pkg', 'index.ts'), '');
+      await fs.writeFile(path.join(tmpDir, 'src', 'app.ts'), '');
+      await fs.writeFile(path.join(tmpDir, 'src', 'app.gen.ts'), '');
+
+      const files = await findFiles(path.join(tmpDir, '**', '*.ts'));
+
+      expect(files).toEqual([path.join(tmpDir, 'src', 'app.ts')]);
+      const walked = readdir.mock.calls.map(([dir]) => path.resolve(String(dir)));
+      expect(walked).toContain(path.join(tmpDir, 'src'));
+      expect(walked.some(dir => dir.includes('node_modules'))).toBe(false);
+    } finally {
+      readdir.mockRestore();
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should walk into ignored directories when ignore files are not respected', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-test-'));
+    try {
+      await fs.mkdir(path.join(tmpDir, '.git'));
+      await fs.mkdir(path.join(tmpDir, 'build'));
+      await fs.writeFile(path.join(tmpDir, '.gitignore'), 'build/\n');
+      await fs.writeFile(path.join(tmpDir, 'build', 'out.js'), '');
+
+      const files = await findFiles(path.join(tmpDir, '**', '*.js'), [], false);
+      expect(files).toEqual([path.join(tmpDir, 'build', 'out.js')]);
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('detectLineEnding', () => {
+  it('should detect LF', () => {
+    expect(detectLineEnding('a\nb\n')).toBe('\n');
+  });
+
+  it('should detect CRLF', () => {
+    expect(detectLineEnding('a\r\nb\r\n')).toBe('\r\n');
+  });
+
+  it('should default to LF for single-line content', () => {
+    expect(detectLineEnding('abc')).toBe('\n');
+  });
+});
+
+describe('readTextFile and writeFileAtomic', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regex-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should strip and report a UTF-8 BOM', async () => {
+    const filePath = path.join(tmpDir, 'bom.txt');
+    await fs.writeFile(filePath, Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69]));
+    const file = await readTextFile(filePath);
+    expect(file).toEqual({ content: 'hi', encoding: 'utf-8', bom: true, eol: '\n' });
+  });
+
+  it('should reject invalid UTF-8 in strict mode', async () => {
+    const filePath = path.join(tmpDir, 'latin1.txt');
+    await fs.writeFile(filePath, Buffer.from([0x63, 0x61, 0x66, 0xe9]));
+    expect((await readTextFile(filePath))?.content).toBe('caf\ufffd');
+    await expect(readTextFile(filePath, undefined, true)).rejects.toMatchObject({ code: 'EDECODE' });
+  });
+
+  it('should attach the error code to read failures', async () => {
+    await expect(readTextFile(path.join(tmpDir, 'missing.txt'))).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should round-trip content with a BOM', async () => {
+    const original = Buffer.from([0xef, 0xbb, 0xbf, 0x68, 0x69]);
+    expect(encodeText('hi', true).equals(original)).toBe(true);
+    expect(encodeText('hi', false).toString()).toBe('hi');
+  });
+
+  it('should detect UTF-16 files by their BOM', async () => {
+    const le = path.join(tmpDir, 'le.txt');
+    const be = path.join(tmpDir, 'be.txt');
+    await fs.writeFile(le, Buffer.from([0xff, 0xfe, 0x68, 0x00, 0x69, 0x00]));
+    await fs.writeFile(be, Buffer.from([0xfe, 0xff, 0x00, 0x68, 0x00, 0x69]));
+
+    expect(await readTextFile(le)).toMatchObject({ content: 'hi', encoding: 'utf-16le', bom: true });
+    expect(await readTextFile(be)).toMatchObject({ content: 'hi', encoding: 'utf-16be', bom: true });
+  });
+
+  it('should treat UTF-16 as binary only for null code units', async () => {
+    const filePath = path.join(tmpDir, 'le.txt');
+    await fs.writeFile(filePath, Buffer.from([0xff, 0xfe, 0x68, 0x00, 0x00, 0x00]));
+    expect(await readTextFile(filePath)).toBeNull();
+  });
+
+  it('should read with an explicit encoding', async () => {
+    const filePath = path.join(tmpDir, 'latin1.txt');
+    await fs.writeFile(filePath, Buffer.from([0x63, 0x61, 0x66, 0xe9]));
+    expect(await readTextFile(filePath, undefined, true, 'latin1')).toMatchObject({ content: 'café', encoding: 'latin1' });
+  });
+
+  it('should round-trip content in each encoding', () => {
+    for (const encoding of ['utf-8', 'utf-16le', 'utf-16be', 'latin1'] as const) {
+      const encoded = encodeText('café\n', true, encoding);
+      const detected = detectEncoding(encoded, encoding === 'latin1' ? 'latin1' : 'auto');
+      expect(detected).toEqual({ encoding, bom: encoding !== 'latin1' });
+    }
+    expect(encodeText('hi', false, 'utf-16be').equals(Buffer.from([0x00, 0x68, 0x00, 0x69]))).toBe(true);
+    expect(() => encodeText('€', false, 'latin1')).toThrow(expect.objectContaining({ code: 'EENCODE' }));
+  });
+
+  it('should replace file content without leaving temporary files', async () => {
+    const filePath = path.join(tmpDir, 'test.txt');
+    await fs.writeFile(filePath, 'old');
+    await writeFileAtomic(filePath, 'new');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('new');
+    expect(await fs.readdir(tmpDir)).toEqual(['test.txt']);
+  });
+
+  it.skipIf(process.platform === 'win32')('should preserve file permissions', async () => {
+    const filePath = path.join(tmpDir, 'script.sh');
+    await fs.writeFile(filePath, 'old');
+    await fs.chmod(filePath, 0o755);
+    await writeFileAtomic(filePath, 'new');
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o755);
+  });
+
+  it.skipIf(process.getuid?.() !== 0)('should preserve the file owner when permitted', async () => {
+    const filePath = path.join(tmpDir, 'owned.txt');
+    await fs.writeFile(filePath, 'old');
+    await fs.chown(filePath, 1234, 5678);
+    await writeFileAtomic(filePath, 'new');
+    expect(await fs.stat(filePath)).toMatchObject({ uid: 1234, gid: 5678 });
+  });
+
+  it.skipIf(process.platform === 'win32')('should write through symbolic links', async () => {
+    const target = path.join(tmpDir, 'target.txt');
+    const link = path.join(tmpDir, 'link.txt');
+    await fs.writeFile(target, 'old');
+    await fs.symlink(target, link);
+    await writeFileAtomic(link, 'new');
+    expect((await fs.lstat(link)).isSymbolicLink()).toBe(true);
+    expect(await fs.readFile(target, 'utf-8')).toBe('new');
+  });
+});
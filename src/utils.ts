@@ -1,5 +1,9 @@
-import { promises as fs } from 'fs';
-import { ParsedPattern } from './types.js';
+import path from 'path';
+import { promises as fs, readdir as readdirCallback, Stats } from 'fs';
+import { randomBytes } from 'crypto';
+import glob from 'fast-glob';
+import { createIgnoreMatcher, filterIgnoredFiles } from './ignore.js';
+import { ParsedPattern, TextEncoding, TextFile } from './types.js';
 
 /**
  * Default binary check buffer size (8KB)
@@ -9,7 +13,7 @@ export const DEFAULT_BINARY_CHECK_SIZE = 8192;
 /**
  * Default encoding for file operations
  */
-export const DEFAULT_ENCODING = 'utf-8';
+export const DEFAULT_ENCODING: TextEncoding = 'utf-8';
 
 /**
  * Default timeout for operations in seconds
@@ -22,18 +26,108 @@ export const DEFAULT_TIMEOUT_SECONDS = 30;
 export const DEFAULT_MAX_RESULTS = 100;
 
 /**
- * Wrap a promise with a timeout
- * @param promise - Promise to wrap
+ * Default size above which files are streamed or skipped, in bytes (50 MiB)
+ */
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Run an operation with a timeout
+ * The operation receives an AbortSignal that is aborted when the timeout expires and is
+ * expected to check it between units of work. The returned promise settles only once the
+ * operation has stopped, so no work continues after the caller sees the timeout error.
+ * @param operation - Operation to run, receiving the abort signal
  * @param timeoutSeconds - Timeout in seconds
- * @returns Promise that rejects if timeout is exceeded
- */
-export function withTimeout<T>(promise: Promise<T>, timeoutSeconds: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(`Operation timed out after ${timeoutSeconds} seconds`)), timeoutSeconds * 1000)
-    ),
-  ]);
+ * @returns Result of the operation
+ * @throws Error with a timeout message if the operation was aborted by the timeout
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutSeconds: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new Error(`Operation timed out after ${timeoutSeconds} seconds`)),
+    timeoutSeconds * 1000
+  );
+
+  try {
+    return await operation(controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Settle with a promise, or reject with the abort reason as soon as the signal fires.
+ * The promise itself keeps running, so this is only for work without side effects.
+ * @param promise - Promise to wait for
+ * @param signal - Abort signal
+ * @returns Result of the promise
+ * @throws The abort reason if the signal fires first
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    // Also handles a rejection of the abandoned promise
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create a readdir for fast-glob that leaves out ignored directories, so that globbing
+ * never walks into them, and that fails with the abort reason once the signal fires
+ * @param isIgnored - Ignore matcher, also used afterwards for file-level rules
+ * @param signal - Abort signal of the operation
+ * @returns readdir for fast-glob's fs option
+ */
+function pruningReaddir(
+  isIgnored: ReturnType<typeof createIgnoreMatcher>,
+  signal: AbortSignal | undefined
+): glob.FileSystemAdapter['readdir'] {
+  const readdir = (dir: string, ...args: unknown[]): void => {
+    const callback = args.pop() as (error: NodeJS.ErrnoException | null, entries: unknown[]) => void;
+    if (signal?.aborted) {
+      callback(signal.reason as NodeJS.ErrnoException, []);
+      return;
+    }
+    // Without file types there is no telling directories apart; the file filter still applies
+    if (args.length === 0) {
+      readdirCallback(dir, callback);
+      return;
+    }
+
+    const read = async () => {
+      const kept = [];
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        if (!entry.isDirectory() || !(await isIgnored(path.resolve(dir, entry.name), true))) {
+          kept.push(entry);
+        }
+      }
+      return kept;
+    };
+    read().then(
+      entries => callback(null, entries),
+      error => callback(error as NodeJS.ErrnoException, [])
+    );
+  };
+  return readdir as glob.FileSystemAdapter['readdir'];
 }
 
 /**
@@ -45,6 +139,52 @@ export function normalizeGlobPath(pathPattern: string): string {
   return pathPattern.replace(/\\/g, '/');
 }
 
+/**
+ * Find files matching a path pattern
+ * Explicit file paths are always returned; glob results are filtered through
+ * .gitignore/.ignore rules unless respectIgnoreFiles is false. Ignored directories are
+ * pruned while globbing, as ripgrep does, so their contents are never listed.
+ * An aborted signal rejects at once; the glob itself stops at its next directory read.
+ * @param pathPattern - File path or glob pattern
+ * @param exclude - Glob patterns to exclude
+ * @param respectIgnoreFiles - Apply .gitignore, .ignore and .git/info/exclude rules
+ * @param signal - Abort signal of the operation
+ * @returns Absolute file paths in native format, sorted
+ * @throws The abort reason if the signal fires
+ */
+export async function findFiles(
+  pathPattern: string,
+  exclude: string[] = [],
+  respectIgnoreFiles: boolean = true,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const normalizedPattern = normalizeGlobPath(pathPattern);
+  const filterIgnored = respectIgnoreFiles && glob.isDynamicPattern(normalizedPattern);
+  const isIgnored: ReturnType<typeof createIgnoreMatcher> = filterIgnored ? createIgnoreMatcher() : async () => false;
+
+  const globResults = await abortable(
+    glob(normalizedPattern, {
+      ignore: exclude,
+      absolute: true,
+      onlyFiles: true,
+      followSymbolicLinks: false,
+      fs: { readdir: pruningReaddir(isIgnored, signal) },
+    }),
+    signal
+  );
+
+  // Normalize paths back to native format (converts forward slashes to backslashes on Windows),
+  // sorted so that results and pagination cursors are deterministic
+  const files = globResults.map(f => path.normalize(f)).sort();
+
+  if (!filterIgnored) {
+    return files;
+  }
+
+  // Directories were pruned while globbing; this applies the file-level rules
+  return filterIgnoredFiles(files, signal, isIgnored);
+}
+
 /**
  * Escape special regex characters in a string for literal matching
  * @param str - String to escape
@@ -108,17 +248,26 @@ export function parsePattern(pattern: string, flagsParam?: string, literal?: boo
 }
 
 /**
- * Check if a buffer contains binary data (null bytes)
+ * Check if a buffer contains binary data (null characters)
  * @param buffer - Buffer to check
  * @param checkSize - Number of bytes to check (0 or less = treat as text)
+ * @param encoding - Encoding of the buffer; UTF-16 text is binary if it has null code units
  * @returns True if binary data detected
  */
-export function isBinary(buffer: Buffer, checkSize: number): boolean {
+export function isBinary(buffer: Buffer, checkSize: number, encoding: TextEncoding = DEFAULT_ENCODING): boolean {
   if (checkSize <= 0) {
     return false; // Treat all files as text
   }
   // Only check up to checkSize bytes
   const bytesToCheck = Math.min(buffer.length, checkSize);
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    for (let i = 0; i + 1 < bytesToCheck; i += 2) {
+      if (buffer[i] === 0 && buffer[i + 1] === 0) {
+        return true;
+      }
+    }
+    return false;
+  }
   for (let i = 0; i < bytesToCheck; i++) {
     if (buffer[i] === 0) {
       return true;
@@ -127,32 +276,220 @@ export function isBinary(buffer: Buffer, checkSize: number): boolean {
   return false;
 }
 
+/**
+ * UTF-8 byte order mark
+ */
+export const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Byte order marks of the encodings that have one, in detection order
+ */
+const BOMS: Array<[TextEncoding, Buffer]> = [
+  ['utf-8', UTF8_BOM],
+  ['utf-16le', Buffer.from([0xff, 0xfe])],
+  ['utf-16be', Buffer.from([0xfe, 0xff])],
+];
+
+/**
+ * Number of leading bytes needed to detect any byte order mark
+ */
+export const MAX_BOM_LENGTH = 3;
+
+/**
+ * Byte order mark of an encoding
+ * @returns The BOM, or an empty buffer for encodings without one
+ */
+function bomOf(encoding: TextEncoding): Buffer {
+  return BOMS.find(([name]) => name === encoding)?.[1] ?? Buffer.alloc(0);
+}
+
+/**
+ * Determine the encoding of file content from its byte order mark
+ * @param buffer - Leading bytes of the file (at least MAX_BOM_LENGTH if available)
+ * @param requested - Encoding to use, or 'auto' to detect UTF-8/UTF-16 by BOM and fall back to UTF-8
+ * @returns Encoding, and whether the content starts with that encoding's BOM
+ */
+export function detectEncoding(
+  buffer: Buffer,
+  requested: TextEncoding | 'auto' = 'auto'
+): { encoding: TextEncoding; bom: boolean } {
+  if (requested === 'auto') {
+    const found = BOMS.find(([, bom]) => bom.equals(buffer.subarray(0, bom.length)));
+    return found ? { encoding: found[0], bom: true } : { encoding: DEFAULT_ENCODING, bom: false };
+  }
+  const bom = bomOf(requested);
+  return { encoding: requested, bom: bom.length > 0 && bom.equals(buffer.subarray(0, bom.length)) };
+}
+
+/**
+ * Decode file content (without BOM)
+ * @param buffer - Encoded content
+ * @param encoding - Encoding of the content
+ * @param strict - Throw on invalid content instead of substituting U+FFFD
+ * @returns Decoded text
+ * @throws TypeError in strict mode if the content is not valid in the encoding
+ */
+export function decodeText(buffer: Buffer, encoding: TextEncoding, strict: boolean = false): string {
+  if (encoding === 'latin1') {
+    return buffer.toString('latin1'); // Every byte is a valid ISO-8859-1 character
+  }
+  return new TextDecoder(encoding, { fatal: strict, ignoreBOM: true }).decode(buffer);
+}
+
+/**
+ * Detect the dominant line ending of text content
+ * @param content - Text content
+ * @returns '\r\n' if CRLF line endings outnumber bare LF, otherwise '\n'
+ */
+export function detectLineEnding(content: string): '\n' | '\r\n' {
+  const crlf = (content.match(/\r\n/g) || []).length;
+  const lf = (content.match(/\n/g) || []).length - crlf;
+  return crlf > lf ? '\r\n' : '\n';
+}
+
+/**
+ * Create an Error carrying a Node-style error code
+ * @param message - Error message
+ * @param code - Error code, e.g. 'ENOENT'
+ * @returns Error with a code property
+ */
+export function codedError(message: string, code: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Read a text file with binary detection, keeping what is needed to write it back unchanged
+ * @param filePath - Path to file
+ * @param binaryCheckSize - Size of buffer to check for binary
+ * @param strict - Reject content that is not valid in its encoding instead of decoding it lossily
+ * @param encoding - Encoding to read the file in, or 'auto' to detect it from the BOM
+ * @returns Decoded content (without BOM) with its encoding, BOM and line ending, or null if binary
+ * @throws Error if file cannot be read (code ENOENT/EACCES/...) or, in strict mode, decoded (code EDECODE)
+ */
+export async function readTextFile(
+  filePath: string,
+  binaryCheckSize: number = DEFAULT_BINARY_CHECK_SIZE,
+  strict: boolean = false,
+  encoding: TextEncoding | 'auto' = 'auto'
+): Promise<TextFile | null> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(filePath);
+  } catch (error: unknown) {
+    const nodeError = error as NodeJS.ErrnoException;
+    if (nodeError.code === 'ENOENT') {
+      throw codedError(`File not found: ${filePath}`, nodeError.code);
+    } else if (nodeError.code === 'EACCES' || nodeError.code === 'EPERM') {
+      throw codedError(`Permission denied: ${filePath}`, nodeError.code);
+    }
+    throw error;
+  }
+
+  const detected = detectEncoding(buffer, encoding);
+
+  if (isBinary(buffer, binaryCheckSize, detected.encoding)) {
+    return null; // Binary file
+  }
+
+  const body = buffer.subarray(detected.bom ? bomOf(detected.encoding).length : 0);
+
+  let content: string;
+  try {
+    content = decodeText(body, detected.encoding, strict);
+  } catch {
+    throw codedError(`Invalid ${detected.encoding} content: ${filePath}`, 'EDECODE');
+  }
+
+  return { content, ...detected, eol: detectLineEnding(content) };
+}
+
 /**
  * Read file with binary detection
  * @param filePath - Path to file
  * @param binaryCheckSize - Size of buffer to check for binary
- * @returns File content as string, or null if binary
+ * @returns File content as string (without BOM), or null if binary
  * @throws Error if file cannot be read
  */
 export async function readFileWithBinaryCheck(
   filePath: string,
   binaryCheckSize: number = DEFAULT_BINARY_CHECK_SIZE
 ): Promise<string | null> {
-  try {
-    const buffer = await fs.readFile(filePath);
+  const file = await readTextFile(filePath, binaryCheckSize);
+  return file ? file.content : null;
+}
 
-    if (isBinary(buffer, binaryCheckSize)) {
-      return null; // Binary file
+/**
+ * Encode text content for writing, restoring the BOM if the original file had one
+ * @param content - Text content
+ * @param bom - Whether to prepend the encoding's BOM
+ * @param encoding - Encoding to write (default: utf-8)
+ * @returns Encoded bytes
+ * @throws Error with code EENCODE if the content has characters the encoding cannot represent
+ */
+export function encodeText(content: string, bom: boolean, encoding: TextEncoding = DEFAULT_ENCODING): Buffer {
+  let encoded: Buffer;
+  if (encoding === 'latin1') {
+    const unencodable = /[^\u0000-\u00ff]/.exec(content);
+    if (unencodable) {
+      throw codedError(`Cannot encode "${unencodable[0]}" in latin1`, 'EENCODE');
     }
+    encoded = Buffer.from(content, 'latin1');
+  } else if (encoding === 'utf-8') {
+    encoded = Buffer.from(content, 'utf-8');
+  } else {
+    encoded = Buffer.from(content, 'utf16le');
+    if (encoding === 'utf-16be') {
+      encoded.swap16();
+    }
+  }
+  return bom ? Buffer.concat([bomOf(encoding), encoded]) : encoded;
+}
 
-    return buffer.toString(DEFAULT_ENCODING);
-  } catch (error: unknown) {
-    const nodeError = error as NodeJS.ErrnoException;
-    if (nodeError.code === 'ENOENT') {
-      throw new Error(`File not found: ${filePath}`);
-    } else if (nodeError.code === 'EACCES' || nodeError.code === 'EPERM') {
-      throw new Error(`Permission denied: ${filePath}`);
+/**
+ * Write a file atomically: data goes to a temporary file in the same directory,
+ * is flushed to disk and then renamed over the target, so readers never see a
+ * partially written file. The existing file's permissions are preserved, and its
+ * owner and group too where the process may set them (e.g. when running as root);
+ * symbolic links are followed so the link itself stays in place.
+ * @param filePath - Path to file
+ * @param data - Content to write
+ */
+export async function writeFileAtomic(filePath: string, data: Buffer | string): Promise<void> {
+  let target = filePath;
+  let stat: Stats | undefined;
+
+  try {
+    target = await fs.realpath(filePath);
+    stat = await fs.stat(target);
+  } catch {
+    // New file: keep default permissions
+  }
+
+  const tmpPath = path.join(path.dirname(target), `.${path.basename(target)}.${randomBytes(6).toString('hex')}.tmp`);
+
+  try {
+    const handle = await fs.open(tmpPath, 'wx', stat ? stat.mode & 0o7777 : 0o666);
+    try {
+      await handle.writeFile(data);
+      if (stat) {
+        // Keep the owner where allowed; only privileged processes may give files away
+        try {
+          await handle.chown(stat.uid, stat.gid);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'EPERM') {
+            throw error;
+          }
+        }
+        // Mode passed to open() is subject to the umask, and chown may clear setuid bits
+        await handle.chmod(stat.mode & 0o7777);
+      }
+      await handle.sync();
+    } finally {
+      await handle.close();
     }
+    await fs.rename(tmpPath, target);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
     throw error;
   }
 }
@@ -209,18 +546,21 @@ export function createRegex(parsedPattern: ParsedPattern): RegExp {
  * @param text - Text to search
  * @param regex - Regular expression
  * @param maxMatches - Maximum number of matches to find
+ * @param signal - Optional abort signal, checked between matches
  * @returns Array of match objects with index and groups
  */
 export function findAllMatches(
   text: string,
   regex: RegExp,
-  maxMatches?: number
+  maxMatches?: number,
+  signal?: AbortSignal
 ): Array<{ index: number; match: RegExpExecArray }> {
   const results: Array<{ index: number; match: RegExpExecArray }> = [];
   const globalRegex = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
 
   let match: RegExpExecArray | null;
   while ((match = globalRegex.exec(text)) !== null) {
+    signal?.throwIfAborted();
     results.push({ index: match.index, match });
 
     if (maxMatches && results.length >= maxMatches) {
@@ -254,15 +594,118 @@ export function getLineAndColumn(
   return { line, column };
 }
 
+/**
+ * Build a table of line start offsets, so that many positions in the same text
+ * can be converted to line and column without rescanning it
+ * @param text - Full text
+ * @returns Offset at which each line starts (the first entry is always 0)
+ */
+export function buildLineIndex(text: string): number[] {
+  const lineStarts = [0];
+  let newline = text.indexOf('\n');
+  while (newline !== -1) {
+    lineStarts.push(newline + 1);
+    newline = text.indexOf('\n', newline + 1);
+  }
+  return lineStarts;
+}
+
+/**
+ * Get line and column number from character index using a line index (binary search)
+ * @param lineStarts - Line index from buildLineIndex
+ * @param charIndex - Character index
+ * @returns Object with line (1-based) and column (0-based)
+ */
+export function lineAndColumnAt(lineStarts: number[], charIndex: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  // Find the last line starting at or before charIndex
+  while (low < high) {
+    const mid = (low + high + 1) >>> 1;
+    if (lineStarts[mid] <= charIndex) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return { line: low + 1, column: charIndex - lineStarts[low] };
+}
+
+/**
+ * List the capture groups of a pattern in order, numbered and named.
+ * Escaped parentheses and parentheses inside character classes are not groups.
+ * @param pattern - Pattern string
+ * @returns Name of each capture group, undefined for numbered groups
+ */
+export function captureGroupNames(pattern: string): Array<string | undefined> {
+  const names: Array<string | undefined> = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++; // Skip the escaped character
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      // "(" starts a capture group unless it is "(?:", a lookaround or another "(?" construct;
+      // "(?<name>" is a named capture group, "(?<=" and "(?<!" are lookbehinds
+      if (pattern[i + 1] !== '?') {
+        names.push(undefined);
+      } else if (pattern[i + 2] === '<' && /[^=!]/.test(pattern[i + 3] ?? '')) {
+        names.push(/^\(\?<([^>]+)>/.exec(pattern.slice(i))?.[1]);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Count the capture groups of a pattern, numbered and named
+ * @param pattern - Pattern string
+ * @returns Number of capture groups
+ */
+export function countCaptureGroups(pattern: string): number {
+  return captureGroupNames(pattern).length;
+}
+
+/**
+ * Resolve a capture group given by index or name to its index
+ * @param pattern - Pattern string
+ * @param group - Group index (0 for the whole match) or name
+ * @returns Group index
+ * @throws Error if the index is out of range or no group has that name
+ */
+export function captureGroupIndex(pattern: string, group: number | string): number {
+  const names = captureGroupNames(pattern);
+
+  if (typeof group === 'number') {
+    if (!Number.isInteger(group) || group < 0 || group > names.length) {
+      throw new Error(`Pattern has no capture group ${group}: ${pattern}`);
+    }
+    return group;
+  }
+
+  const index = names.indexOf(group);
+  if (index === -1) {
+    throw new Error(`Pattern has no capture group named "${group}": ${pattern}`);
+  }
+  return index + 1;
+}
+
 /**
  * Validate that a pattern has capture groups
  * @param pattern - Pattern string
  * @throws Error if no capture groups found
  */
 export function validateCaptureGroups(pattern: string): void {
-  // Simple check for capture groups
-  const hasCaptureGroups = /\([^?]/.test(pattern) || /\(\?<\w+>/.test(pattern);
-  if (!hasCaptureGroups) {
+  if (countCaptureGroups(pattern) === 0) {
     throw new Error(`Pattern has no capture groups: ${pattern}`);
   }
 }